@@ -1,34 +1,30 @@
 "use client"
 
 import * as React from "react"
-import { cn } from "@/lib/utils"
 import { zodResolver } from "@hookform/resolvers/zod"
-import { Check } from "lucide-react"
 import { useForm } from "react-hook-form"
 import { z } from "zod"
 
-import { useDisclosure } from "@repo/hooks/use-disclosure"
-import { useIsMounted } from "@repo/hooks/use-is-mounted"
+import type { TagsInputApi } from "@repo/tags/tags-input"
 import {
   Delimiters,
+  fuzzyMatcher,
   TagsInput,
+  TagsInputCharCounter,
+  TagsInputError,
   TagsInputGroup,
   TagsInputInput,
   TagsInputItem,
   TagsInputItemDelete,
+  TagsInputItems,
   TagsInputItemText,
   TagsInputKeyActions,
+  TagsInputSuggestion,
+  TagsInputSuggestions,
+  TagsInputSuggestionsEmpty,
+  TagsInputSuggestionsLoading,
 } from "@repo/tags/tags-input"
 import { Button } from "@repo/ui/button"
-import {
-  Command,
-  CommandDialog,
-  CommandEmpty,
-  CommandGroup,
-  CommandInput,
-  CommandItem,
-  CommandList,
-} from "@repo/ui/command"
 import {
   Form,
   FormControl,
@@ -96,10 +92,28 @@ const randomTags = [
   { label: "Sleek", value: "sleek" },
 ]
 
+// Stands in for a server search over a large vocabulary
+function loadRandomTags(query: string, { signal }: { signal: AbortSignal }) {
+  return new Promise<string[]>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      resolve(
+        randomTags
+          .filter((tag) => fuzzyMatcher(tag.label, query) !== null)
+          .map((tag) => tag.value)
+      )
+    }, 300)
+
+    signal.addEventListener("abort", () => {
+      clearTimeout(timeout)
+      reject(signal.reason)
+    })
+  })
+}
+
 export default function Home() {
-  const { isOpen, onOpen, onClose, toggle } = useDisclosure()
   const [tags, setTags] = React.useState<string[]>(["tag1", "tag2"])
-  const isMounted = useIsMounted()
+  const itemsApiRef =
+    React.useRef<TagsInputApi<{ id: string; value: string }>>(null)
 
   const form = useForm<z.infer<typeof FormSchema>>({
     resolver: zodResolver(FormSchema),
@@ -132,17 +146,17 @@ export default function Home() {
           Uncontrolled
         </h2>
         <TagsInput defaultValue={["tag1", "tag2"]}>
-          {({ tags }) => (
-            <TagsInputGroup>
-              {tags.map((tag, idx) => (
-                <TagsInputItem key={idx} size="sm">
-                  <TagsInputItemText>{tag}</TagsInputItemText>
+          <TagsInputGroup>
+            <TagsInputItems>
+              {() => (
+                <TagsInputItem size="sm">
+                  <TagsInputItemText />
                   <TagsInputItemDelete />
                 </TagsInputItem>
-              ))}
-              <TagsInputInput placeholder="Add tags..." />
-            </TagsInputGroup>
-          )}
+              )}
+            </TagsInputItems>
+            <TagsInputInput placeholder="Add tags..." />
+          </TagsInputGroup>
         </TagsInput>
       </div>
       <div>
@@ -163,20 +177,26 @@ export default function Home() {
                         value={field.value}
                         onChange={field.onChange}
                         caseSensitiveDuplicates
+                        maxTagLength={20}
+                        addOnSubmit
                         inline
                       >
                         <TagsInputGroup>
-                          {field.value.map((tag, idx) => (
-                            <TagsInputItem shape="rounded" size="sm" key={idx}>
-                              <TagsInputItemText>{tag}</TagsInputItemText>
-                              <TagsInputItemDelete className="rounded-full" />
-                            </TagsInputItem>
-                          ))}
+                          <TagsInputItems>
+                            {() => (
+                              <TagsInputItem shape="rounded" size="sm">
+                                <TagsInputItemText />
+                                <TagsInputItemDelete className="rounded-full" />
+                              </TagsInputItem>
+                            )}
+                          </TagsInputItems>
                           <TagsInputInput
                             placeholder="Enter tags"
                             ref={field.ref}
                           />
                         </TagsInputGroup>
+                        <TagsInputCharCounter />
+                        <TagsInputError />
                       </TagsInput>
                     </FormControl>
                     <FormDescription>These are your tags</FormDescription>
@@ -200,18 +220,21 @@ export default function Home() {
                     <TagsInput
                       value={field.value}
                       onChange={field.onChange}
+                      apiRef={itemsApiRef}
                       parseInput={(tag) => ({
                         value: tag,
                         id: generateUniqueId(),
                       })}
                     >
                       <TagsInputGroup>
-                        {field.value.map((tag, idx) => (
-                          <TagsInputItem key={idx}>
-                            <TagsInputItemText>{tag.value}</TagsInputItemText>
-                            <TagsInputItemDelete />
-                          </TagsInputItem>
-                        ))}
+                        <TagsInputItems>
+                          {() => (
+                            <TagsInputItem>
+                              <TagsInputItemText />
+                              <TagsInputItemDelete />
+                            </TagsInputItem>
+                          )}
+                        </TagsInputItems>
                         <TagsInputInput
                           placeholder="Enter tags"
                           ref={field.ref}
@@ -224,10 +247,7 @@ export default function Home() {
                   <Button
                     type="button"
                     onClick={() =>
-                      field.onChange([
-                        ...field.value,
-                        { id: generateUniqueId(), value: generateRandomWord() },
-                      ])
+                      itemsApiRef.current?.addTags(generateRandomWord())
                     }
                   >
                     Add random tag
@@ -243,66 +263,49 @@ export default function Home() {
                   <FormLabel>
                     Values{" "}
                     <span className="font-bold text-primary">
-                      (command example)
+                      (suggestions example)
                     </span>
                   </FormLabel>
-                  <TagsInput value={field.value} onChange={field.onChange}>
+                  <TagsInput
+                    value={field.value}
+                    onChange={field.onChange}
+                    loadSuggestions={loadRandomTags}
+                    suggestionMatcher="fuzzy"
+                    creatable={false}
+                    isKnownTag={(tag) =>
+                      randomTags.some((randomTag) => randomTag.value === tag)
+                    }
+                  >
                     <TagsInputGroup>
-                      {field.value.map((tag, idx) => (
-                        <TagsInputItem key={idx}>
-                          <TagsInputItemText>{tag}</TagsInputItemText>
-                          <TagsInputItemDelete />
-                        </TagsInputItem>
-                      ))}
-
-                      <Command className="border border-secondary">
-                        <FormControl>
-                          <CommandInput asChild className="h-9">
-                            <TagsInputInput
-                              onKeyDown={(e) => {
-                                if (e.key === "Enter") {
-                                  e.preventDefault()
-                                }
-                              }}
-                              onPaste={(e) => e.preventDefault()}
-                              placeholder="Search tags..."
-                              ref={field.ref}
-                            />
-                          </CommandInput>
-                        </FormControl>
-
-                        {/* <CommandDialog open={isOpen} onOpenChange={onClose}> */}
-                        <CommandList>
-                          {isMounted && (
-                            <CommandEmpty>No tag found.</CommandEmpty>
-                          )}
-                          <CommandGroup>
-                            {randomTags
-                              .filter((tag) => !field.value.includes(tag.value))
-                              .map((tag) => (
-                                <CommandItem
-                                  value={tag.label}
-                                  key={tag.value}
-                                  onSelect={() => {
-                                    field.onChange([...field.value, tag.value])
-                                  }}
-                                >
-                                  {tag.label}
-                                  <Check
-                                    className={cn(
-                                      "ml-auto",
-                                      (field?.value ?? []).includes(tag.value)
-                                        ? "opacity-100"
-                                        : "opacity-0"
-                                    )}
-                                  />
-                                </CommandItem>
-                              ))}
-                          </CommandGroup>
-                        </CommandList>
-                        {/* </CommandDialog> */}
-                      </Command>
+                      <TagsInputItems>
+                        {() => (
+                          <TagsInputItem>
+                            <TagsInputItemText />
+                            <TagsInputItemDelete />
+                          </TagsInputItem>
+                        )}
+                      </TagsInputItems>
+                      <FormControl>
+                        <TagsInputInput
+                          placeholder="Search tags..."
+                          ref={field.ref}
+                        />
+                      </FormControl>
                     </TagsInputGroup>
+                    <TagsInputSuggestions>
+                      {({ suggestions }) => (
+                        <>
+                          {suggestions.map((value) => (
+                            <TagsInputSuggestion
+                              key={String(value)}
+                              value={value}
+                            />
+                          ))}
+                          <TagsInputSuggestionsLoading />
+                          <TagsInputSuggestionsEmpty />
+                        </>
+                      )}
+                    </TagsInputSuggestions>
                   </TagsInput>
                   <FormDescription>
                     Select from the list of given tags
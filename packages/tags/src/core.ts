@@ -0,0 +1,808 @@
+/**
+ * Framework-agnostic tag rules shared by the React bindings and the server.
+ * Nothing in this module may import React or touch the DOM.
+ */
+
+type Primitive = string | number
+
+type Wrapper<T extends Primitive> = {
+  value: T
+}
+
+type ExtendedObject<T extends Primitive> = Wrapper<T> & {
+  [key: string]: unknown
+}
+
+type Tag<T extends Primitive> = T | Wrapper<T> | ExtendedObject<T>
+
+/**
+ * Raw value accepted when adding or editing a tag: either a primitive that
+ * still has to go through `parseInput`, or an already parsed tag.
+ */
+type TagInput<T extends Tag<Primitive>> = Primitive | T
+
+type TagRejectionReason =
+  | "duplicate"
+  | "maxTags"
+  | "minTags"
+  | "invalid"
+  | "empty"
+  | "unknown"
+  | "type"
+  | "minLength"
+  | "maxLength"
+  | "pattern"
+
+/**
+ * Type of the value typed text is turned into before `parseInput`.
+ *
+ * - `"string"` -> The text is kept as it is.
+ * - `"number"` -> The text is read as a number in `locale`; other text is
+ *   refused with the `type` reason.
+ * - `"auto"` -> The text becomes a number only when it reads back the same,
+ *   so "42" becomes 42 but "007" and "1e3" stay text.
+ */
+type ValueType = "string" | "number" | "auto"
+
+/**
+ * Rewrites the text of a tag, e.g. to trim or lowercase it.
+ */
+type TagTransform = (value: string) => string
+
+/**
+ * Describes an input refused by `tagsReducer`.
+ */
+interface TagRejection<T extends Tag<Primitive>> {
+  input: TagInput<T>
+  reason: TagRejectionReason
+  message: string
+}
+
+interface TagsState<T extends Tag<Primitive>> {
+  tags: T[]
+
+  /**
+   * Inputs refused by the last event, if any.
+   */
+  rejections?: TagRejection<T>[]
+}
+
+type TagsEvent<T extends Tag<Primitive>> =
+  | { type: "ADD"; tags: TagInput<T> | TagInput<T>[] }
+  | { type: "REMOVE"; index: number | number[] }
+  | { type: "MOVE"; from: number; to: number }
+  | { type: "EDIT"; index: number; tag: TagInput<T> }
+  | { type: "CLEAR" }
+  | { type: "SET"; tags: T[] }
+
+/**
+ * Rules applied by `tagsReducer`.
+ */
+interface TagsOptions<T extends Tag<Primitive> = Tag<Primitive>> {
+  /**
+   * Maximum number of tags allowed.
+   */
+  maxTags?: number
+
+  /**
+   * Minimum number of tags required. Adding is never blocked by it; the
+   * list is reported as invalid while below the minimum.
+   */
+  minTags?: number
+
+  /**
+   * What happens when a removal would leave fewer than `minTags` tags.
+   *
+   * - `"block"` -> The removal is refused with the `minTags` reason.
+   * - `"allow"` -> The removal goes through and the list becomes invalid.
+   *
+   * @default "block"
+   */
+  minTagsMode?: "block" | "allow"
+
+  /**
+   * Minimum number of characters of a tag.
+   */
+  minTagLength?: number
+
+  /**
+   * Maximum number of characters of a tag.
+   */
+  maxTagLength?: number
+
+  /**
+   * Pattern the whole text of a tag has to match, e.g. `/^[a-z0-9-]+$/`.
+   */
+  allowedPattern?: RegExp
+
+  /**
+   * Whether duplicate tags are allowed.
+   *
+   * @default false
+   */
+  allowDuplicates?: boolean
+
+  /**
+   * Whether duplicate checks are case-sensitive.
+   *
+   * @default false
+   */
+  caseSensitiveDuplicates?: boolean
+
+  /**
+   * Transforms applied in order to the text of every added or edited tag,
+   * before duplicates are checked, so "React " and "react" count as the same
+   * tag and the stored value is already canonical.
+   */
+  transformTag?: TagTransform | TagTransform[]
+
+  /**
+   * Type of the value typed text is turned into before `parseInput`.
+   *
+   * @default "string"
+   */
+  valueType?: ValueType
+
+  /**
+   * Locale used to read numbers when `valueType` is `"number"`, e.g. with
+   * `"de-DE"` the text "1.234,5" becomes 1234.5. Defaults to the runtime's
+   * locale.
+   */
+  locale?: string
+
+  /**
+   * Turns typed text into the tag value before `parseInput`, instead of
+   * `valueType`. Return `null` to refuse the text with the `type` reason.
+   */
+  parseValue?: (raw: string) => Primitive | null
+
+  /**
+   * Function to parse a primitive input into a tag object.
+   */
+  parseInput?: (input: Primitive) => ExtendedObject<Primitive>
+
+  /**
+   * Custom validation run on every parsed tag that passed the built-in checks.
+   * Return an error message (or `false`) to reject the tag.
+   */
+  validateTag?: (
+    tag: T,
+    context: { tags: T[] }
+  ) => string | boolean | null | undefined
+
+  /**
+   * Whether tags outside the known vocabulary may be added. A function
+   * receives the text of the tag and decides per tag.
+   *
+   * @default true
+   */
+  creatable?: boolean | ((input: string) => boolean)
+
+  /**
+   * Tells whether a tag belongs to the known vocabulary. Only consulted when
+   * `creatable` refuses the tag.
+   */
+  isKnownTag?: (tag: T) => boolean
+}
+
+const defaultRejectionMessages: Record<
+  TagRejectionReason,
+  (options: TagsOptions<never>) => string
+> = {
+  duplicate: () => "This tag has already been added.",
+  maxTags: ({ maxTags }) =>
+    `You can add at most ${maxTags} ${maxTags === 1 ? "tag" : "tags"}.`,
+  minTags: ({ minTags }) =>
+    `At least ${minTags} ${minTags === 1 ? "tag is" : "tags are"} required.`,
+  invalid: () => "This tag is not valid.",
+  empty: () => "Tags cannot be empty.",
+  unknown: () => "Only tags from the list can be added.",
+  minLength: ({ minTagLength }) =>
+    `Tags must be at least ${minTagLength} ${minTagLength === 1 ? "character" : "characters"} long.`,
+  maxLength: ({ maxTagLength }) =>
+    `Tags can be at most ${maxTagLength} ${maxTagLength === 1 ? "character" : "characters"} long.`,
+  pattern: () => "This tag contains characters that are not allowed.",
+  type: ({ valueType }) =>
+    valueType === "number"
+      ? "Only numbers can be added."
+      : "This value could not be read.",
+}
+
+function createRejection<T extends Tag<Primitive>>(
+  input: TagInput<T>,
+  reason: TagRejectionReason,
+  options: TagsOptions<T>,
+  message?: string
+): TagRejection<T> {
+  return {
+    input,
+    reason,
+    message: message ?? defaultRejectionMessages[reason](options),
+  }
+}
+
+/**
+ * Converts the result of a tag validator into an error message, or
+ * `undefined` when the tag is valid.
+ */
+function getValidationMessage(
+  result: string | boolean | null | undefined
+): string | undefined {
+  if (typeof result === "string") return result
+  if (result === false) return defaultRejectionMessages.invalid({})
+  return undefined
+}
+
+// Runs the custom validator, returning the error message when the tag is refused
+function runValidateTag<T extends Tag<Primitive>>(
+  tag: T,
+  tags: T[],
+  validateTag: TagsOptions<T>["validateTag"]
+): string | undefined {
+  if (!validateTag) return undefined
+  return getValidationMessage(validateTag(tag, { tags }))
+}
+
+/**
+ * Number of characters in `text`, counting emoji and other astral characters
+ * once.
+ */
+function getTagLength(text: string): number {
+  return Array.from(text).length
+}
+
+/**
+ * Checks the text of a tag against `minTagLength`, `maxTagLength` and
+ * `allowedPattern`, returning the reason it is refused, if any.
+ */
+function checkTagText(
+  text: string,
+  {
+    minTagLength,
+    maxTagLength,
+    allowedPattern,
+  }: Pick<TagsOptions, "minTagLength" | "maxTagLength" | "allowedPattern">
+): "minLength" | "maxLength" | "pattern" | undefined {
+  const length = getTagLength(text)
+  if (minTagLength && length < minTagLength) return "minLength"
+  if (maxTagLength && length > maxTagLength) return "maxLength"
+
+  // A global or sticky pattern would carry `lastIndex` between tags
+  const pattern =
+    allowedPattern &&
+    new RegExp(allowedPattern.source, allowedPattern.flags.replace(/[gy]/g, ""))
+  if (pattern && !pattern.test(text)) return "pattern"
+
+  return undefined
+}
+
+// Tags from the known vocabulary are always allowed, others only if creatable
+function isTagAllowed<T extends Tag<Primitive>>(
+  tag: T,
+  { creatable = true, isKnownTag }: TagsOptions<T>
+): boolean {
+  const isCreatable =
+    typeof creatable === "function"
+      ? creatable(String(isObject(tag) ? tag.value : tag))
+      : creatable
+
+  return isCreatable || (isKnownTag?.(tag) ?? false)
+}
+
+function isObject<T extends Primitive>(
+  value: Tag<T>
+): value is ExtendedObject<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    "value" in value &&
+    Object.prototype.toString.call(value) === "[object Object]"
+  )
+}
+
+// Helper function to normalize tag values for comparison
+function normalizeTag(tag: Tag<Primitive>, caseSensitive: boolean): string {
+  if (isObject(tag)) {
+    return caseSensitive ? String(tag.value) : String(tag.value).toLowerCase()
+  }
+  return caseSensitive ? String(tag) : String(tag).toLowerCase()
+}
+
+// Checks for duplicates based on the unique normalized tag and normalized existing tag
+function isDuplicate(
+  normalizedTag: Primitive,
+  uniqueNormalizedTags: Set<Primitive>,
+  normalizedExistingTags: Set<Primitive>
+): boolean {
+  return (
+    uniqueNormalizedTags.has(normalizedTag) ||
+    normalizedExistingTags.has(normalizedTag)
+  )
+}
+
+/**
+ * Runs `value` through a transform or a pipeline of transforms.
+ */
+function transformTagValue(
+  value: string,
+  transformTag: TagTransform | TagTransform[] | undefined
+): string {
+  if (!transformTag) return value
+  const transforms = Array.isArray(transformTag) ? transformTag : [transformTag]
+  return transforms.reduce((result, transform) => transform(result), value)
+}
+
+// Transforms the text of a tag; numbers are left alone
+function transformTagInput<T extends Tag<Primitive>>(
+  input: TagInput<T>,
+  transformTag: TagsOptions<T>["transformTag"]
+): TagInput<T> {
+  if (!transformTag) return input
+  if (typeof input === "string") return transformTagValue(input, transformTag)
+  if (isObject(input as Tag<Primitive>)) {
+    const object = input as ExtendedObject<Primitive>
+    if (typeof object.value === "string") {
+      return {
+        ...object,
+        value: transformTagValue(object.value, transformTag),
+      } as T
+    }
+  }
+  return input
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Reads a number written for `locale`, e.g. "1.234,5" in German or
+ * "1 234,5" in French. Returns `null` when the text is not a plain number,
+ * including group separators in the wrong places, so a mistyped decimal such
+ * as "1.5" in German is refused rather than read as 15.
+ */
+function parseLocaleNumber(raw: string, locale?: string): number | null {
+  const format = new Intl.NumberFormat(locale)
+  const parts = format.formatToParts(-12345.6)
+  const group = parts.find((part) => part.type === "group")?.value ?? ","
+  const decimal = parts.find((part) => part.type === "decimal")?.value ?? "."
+
+  // Sizes of the integer groups, e.g. 3 then 2 for "1,23,45,67,890" in Hindi
+  const groupSizes = format
+    .formatToParts(1234567890)
+    .filter((part) => part.type === "integer")
+    .map((part) => part.value.length)
+  const primarySize = groupSizes.at(-1) ?? 3
+  const secondarySize = groupSizes.at(-2) ?? primarySize
+
+  // Spaces of any width are common group separators, even when the locale
+  // uses another one
+  const separator = `(?:${escapeRegExp(group)}|\\s)`
+  const grouped =
+    groupSizes.length > 1
+      ? `\\d{1,${secondarySize}}(?:${separator}\\d{${secondarySize}})*${separator}\\d{${primarySize}}|`
+      : ""
+  const point = escapeRegExp(decimal)
+  const pattern = new RegExp(
+    `^[+-]?(?:(?:${grouped}\\d+)(?:${point}\\d*)?|${point}\\d+)$`
+  )
+
+  const text = raw.trim().replace(/^\u2212/, "-")
+  if (!pattern.test(text)) return null
+
+  return Number(
+    text.replace(new RegExp(separator, "g"), "").replace(decimal, ".")
+  )
+}
+
+/**
+ * Turns typed text into the tag value according to `parseValue` or
+ * `valueType`. Tags that are not strings are returned as they are; `null`
+ * means the text is refused.
+ */
+function parseTagValue<T extends Tag<Primitive>>(
+  input: TagInput<T>,
+  { valueType = "string", locale, parseValue }: TagsOptions<T>
+): TagInput<T> | null {
+  // Empty text is left for the `empty` check
+  if (typeof input !== "string" || input.trim() === "") return input
+
+  if (parseValue) return parseValue(input)
+
+  switch (valueType) {
+    case "number":
+      return parseLocaleNumber(input, locale)
+    case "auto": {
+      const number = Number(input)
+      return Number.isFinite(number) && String(number) === input.trim()
+        ? number
+        : input
+    }
+    default:
+      return input
+  }
+}
+
+// Preprocess the tag if a parseInput function is provided
+function parseTagInput<T extends Tag<Primitive>>(
+  input: TagInput<T>,
+  parseInput: TagsOptions<T>["parseInput"]
+): T {
+  if (isObject(input as Tag<Primitive>)) return input as T
+  return (parseInput ? parseInput(input as Primitive) : input) as T
+}
+
+function isEmptyTag(tag: Tag<Primitive>): boolean {
+  return normalizeTag(tag, true).trim() === ""
+}
+
+function addTags<T extends Tag<Primitive>>(
+  tags: T[],
+  input: TagInput<T> | TagInput<T>[],
+  options: TagsOptions<T>
+): { tags: T[]; rejections: TagRejection<T>[] } {
+  const {
+    maxTags,
+    allowDuplicates = false,
+    caseSensitiveDuplicates = false,
+    parseInput,
+    validateTag,
+  } = options
+
+  const arrayTags = Array.isArray(input) ? input : [input]
+
+  const rejectAll = (reason: TagRejectionReason) => ({
+    tags,
+    rejections: arrayTags.map((tag) => createRejection(tag, reason, options)),
+  })
+
+  // Pre-check for the maxTags condition
+  if (maxTags && tags.length >= maxTags) return rejectAll("maxTags")
+
+  const normalizedExistingTags = new Set<Primitive>(
+    tags.map((tag) => normalizeTag(tag, caseSensitiveDuplicates))
+  )
+
+  const uniqueNormalizedTags = new Set<Primitive>()
+  const tagsToAdd: T[] = []
+  const rejections: TagRejection<T>[] = []
+
+  for (const singleTag of arrayTags) {
+    // Check if we can add more tags without exceeding maxTags
+    if (maxTags && tags.length + tagsToAdd.length >= maxTags) {
+      rejections.push(createRejection(singleTag, "maxTags", options))
+      continue
+    }
+
+    const value = parseTagValue(
+      transformTagInput(singleTag, options.transformTag),
+      options
+    )
+    if (value === null) {
+      rejections.push(createRejection(singleTag, "type", options))
+      continue
+    }
+
+    const parsedTag = parseTagInput(value, parseInput)
+
+    if (isEmptyTag(parsedTag)) {
+      rejections.push(createRejection(singleTag, "empty", options))
+      continue
+    }
+
+    const textReason = checkTagText(normalizeTag(parsedTag, true), options)
+    if (textReason) {
+      rejections.push(createRejection(singleTag, textReason, options))
+      continue
+    }
+
+    const normalizedTag = normalizeTag(parsedTag, caseSensitiveDuplicates)
+
+    // Handle duplicates
+    if (
+      !allowDuplicates &&
+      isDuplicate(normalizedTag, uniqueNormalizedTags, normalizedExistingTags)
+    ) {
+      rejections.push(createRejection(singleTag, "duplicate", options))
+      continue
+    }
+
+    if (!isTagAllowed(parsedTag, options)) {
+      rejections.push(createRejection(singleTag, "unknown", options))
+      continue
+    }
+
+    const errorMessage = runValidateTag(
+      parsedTag,
+      [...tags, ...tagsToAdd],
+      validateTag
+    )
+    if (errorMessage !== undefined) {
+      rejections.push(
+        createRejection(singleTag, "invalid", options, errorMessage)
+      )
+      continue
+    }
+
+    uniqueNormalizedTags.add(normalizedTag)
+    tagsToAdd.push(parsedTag)
+  }
+
+  return {
+    tags: tagsToAdd.length > 0 ? [...tags, ...tagsToAdd] : tags,
+    rejections,
+  }
+}
+
+function editTag<T extends Tag<Primitive>>(
+  tags: T[],
+  index: number,
+  input: TagInput<T>,
+  options: TagsOptions<T>
+): { tags: T[]; rejections: TagRejection<T>[] } {
+  const {
+    allowDuplicates = false,
+    caseSensitiveDuplicates = false,
+    parseInput,
+    validateTag,
+  } = options
+
+  const reject = (reason: TagRejectionReason, message?: string) => ({
+    tags,
+    rejections: [createRejection(input, reason, options, message)],
+  })
+
+  const value = parseTagValue(
+    transformTagInput(input, options.transformTag),
+    options
+  )
+  if (value === null) return reject("type")
+
+  const current = tags[index] as T
+  const parsedTag = parseTagInput(value, parseInput)
+  const parsedObject = isObject(parsedTag as Tag<Primitive>)
+    ? (parsedTag as ExtendedObject<Primitive>)
+    : undefined
+
+  // Editing an object tag with a primitive runs it through `parseInput` again,
+  // so derived fields (e.g. a label) follow the new value. Fields it does not
+  // return are kept, and the `id` stays so the tag keeps its identity
+  const editedTag =
+    isObject(current) && !isObject(input as Tag<Primitive>)
+      ? ({
+          ...(current as ExtendedObject<Primitive>),
+          ...parsedObject,
+          value: parsedObject ? parsedObject.value : parsedTag,
+          ...("id" in current ? { id: current.id } : {}),
+        } as T)
+      : parsedTag
+
+  if (isEmptyTag(editedTag)) return reject("empty")
+
+  const textReason = checkTagText(normalizeTag(editedTag, true), options)
+  if (textReason) return reject(textReason)
+
+  const otherTags = tags.filter((_, i) => i !== index)
+
+  if (!allowDuplicates) {
+    const normalizedTag = normalizeTag(editedTag, caseSensitiveDuplicates)
+    const normalizedOtherTags = new Set<Primitive>(
+      otherTags.map((tag) => normalizeTag(tag, caseSensitiveDuplicates))
+    )
+
+    if (normalizedOtherTags.has(normalizedTag)) return reject("duplicate")
+  }
+
+  if (!isTagAllowed(editedTag, options)) return reject("unknown")
+
+  const errorMessage = runValidateTag(editedTag, otherTags, validateTag)
+  if (errorMessage !== undefined) return reject("invalid", errorMessage)
+
+  const updatedTags = [...tags]
+  updatedTags[index] = editedTag
+  return { tags: updatedTags, rejections: [] }
+}
+
+function removeTags<T extends Tag<Primitive>>(
+  tags: T[],
+  indices: Set<number>,
+  options: TagsOptions<T>
+): { tags: T[]; rejections: TagRejection<T>[] } {
+  const { minTags, minTagsMode = "block" } = options
+
+  // Removals that would go below minTags are refused as a whole
+  if (
+    minTagsMode === "block" &&
+    minTags &&
+    tags.length - indices.size < minTags
+  ) {
+    return {
+      tags,
+      rejections: Array.from(indices, (index) =>
+        createRejection(tags[index] as T, "minTags", options)
+      ),
+    }
+  }
+
+  return {
+    tags: tags.filter((_, index) => !indices.has(index)),
+    rejections: [],
+  }
+}
+
+/**
+ * Validity of a list of tags against the `minTags` and `maxTags` rules.
+ */
+interface TagsValidity {
+  isValid: boolean
+  isBelowMin: boolean
+  isAtMax: boolean
+}
+
+function getTagsValidity(
+  tags: Tag<Primitive>[],
+  { minTags, maxTags }: Pick<TagsOptions, "minTags" | "maxTags">
+): TagsValidity {
+  const isBelowMin = !!minTags && tags.length < minTags
+  const isAboveMax = !!maxTags && tags.length > maxTags
+  const isAtMax = !!maxTags && tags.length >= maxTags
+
+  return { isValid: !isBelowMin && !isAboveMax, isBelowMin, isAtMax }
+}
+
+function isValidIndex(tags: unknown[], index: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < tags.length
+}
+
+/**
+ * Pure state transition for a list of tags. The `tags` array keeps its
+ * reference when an event is rejected or has no effect, and `rejections`
+ * lists every input the event refused.
+ *
+ * @example
+ * // Re-validate submitted tags on the server
+ * const { tags } = tagsReducer(
+ *   { tags: [] },
+ *   { type: "ADD", tags: submittedTags },
+ *   { maxTags: 5 }
+ * )
+ */
+function tagsReducer<T extends Tag<Primitive>>(
+  state: TagsState<T>,
+  event: TagsEvent<T>,
+  options: TagsOptions<T> = {}
+): TagsState<T> {
+  const { tags } = state
+
+  const withTags = (
+    updatedTags: T[],
+    rejections: TagRejection<T>[] = []
+  ): TagsState<T> => ({ ...state, tags: updatedTags, rejections })
+
+  switch (event.type) {
+    case "ADD": {
+      if (event.tags == null) return withTags(tags)
+      const result = addTags(tags, event.tags, options)
+      return withTags(result.tags, result.rejections)
+    }
+
+    case "REMOVE": {
+      const indices = new Set(
+        Array.isArray(event.index) ? event.index : [event.index]
+      )
+
+      // Guard to ensure every index is valid
+      for (const index of indices) {
+        if (!isValidIndex(tags, index)) return withTags(tags)
+      }
+      if (indices.size === 0) return withTags(tags)
+
+      const result = removeTags(tags, indices, options)
+      return withTags(result.tags, result.rejections)
+    }
+
+    case "MOVE": {
+      if (!isValidIndex(tags, event.from) || !isValidIndex(tags, event.to)) {
+        return withTags(tags)
+      }
+      if (event.from === event.to) return withTags(tags)
+
+      const updatedTags = [...tags]
+      const [movedTag] = updatedTags.splice(event.from, 1)
+      updatedTags.splice(event.to, 0, movedTag as T)
+      return withTags(updatedTags)
+    }
+
+    case "EDIT": {
+      if (!isValidIndex(tags, event.index)) return withTags(tags)
+      const result = editTag(tags, event.index, event.tag, options)
+      return withTags(result.tags, result.rejections)
+    }
+
+    case "CLEAR": {
+      if (tags.length === 0) return withTags(tags)
+
+      const result = removeTags(tags, new Set(tags.keys()), options)
+      return withTags(result.tags, result.rejections)
+    }
+
+    case "SET":
+      return withTags(event.tags)
+
+    default:
+      return withTags(tags)
+  }
+}
+
+/**
+ * Runs a list of tags (e.g. submitted by a form) through the same rules as
+ * `TagsInput`, returning the accepted tags, the refused inputs and the
+ * validity of the result.
+ *
+ * @example
+ * const { isValid, rejections } = validateTags(formTags, { minTags: 1 })
+ */
+function validateTags<T extends Tag<Primitive>>(
+  tags: TagInput<T>[],
+  options: TagsOptions<T> = {}
+): TagsValidity & { tags: T[]; rejections: TagRejection<T>[] } {
+  const { tags: acceptedTags, rejections = [] } = tagsReducer<T>(
+    { tags: [] },
+    { type: "ADD", tags },
+    options
+  )
+
+  const validity = getTagsValidity(acceptedTags, options)
+
+  return {
+    ...validity,
+    isValid: validity.isValid && rejections.length === 0,
+    tags: acceptedTags,
+    rejections,
+  }
+}
+
+/**
+ * Binds `tagsReducer` to a fixed set of options, producing a reducer with
+ * the `(state, event) => state` shape expected by `useReducer` and friends.
+ */
+function createTagsReducer<T extends Tag<Primitive>>(
+  options: TagsOptions<T> = {}
+) {
+  return (state: TagsState<T>, event: TagsEvent<T>): TagsState<T> =>
+    tagsReducer(state, event, options)
+}
+
+export {
+  isObject,
+  normalizeTag,
+  isDuplicate,
+  parseLocaleNumber,
+  parseTagValue,
+  transformTagValue,
+  getTagLength,
+  checkTagText,
+  createRejection,
+  getValidationMessage,
+  getTagsValidity,
+  validateTags,
+  tagsReducer,
+  createTagsReducer,
+}
+
+export type {
+  Primitive,
+  Wrapper,
+  ExtendedObject,
+  Tag,
+  TagInput,
+  TagRejectionReason,
+  TagRejection,
+  ValueType,
+  TagTransform,
+  TagsState,
+  TagsEvent,
+  TagsOptions,
+  TagsValidity,
+}
@@ -0,0 +1,83 @@
+/**
+ * Framework-agnostic conversion of tags to and from form fields, so tags
+ * submitted by a plain HTML form or a server action can be read back from
+ * `FormData`. Nothing in this module may import React or touch the DOM.
+ */
+
+import type { Primitive, Tag } from "./core"
+import { isObject } from "./core"
+import { quoteToken, tokenize } from "./tokenize"
+
+/**
+ * How tags are written to form fields.
+ *
+ * - `"repeat"` -> One field per tag, e.g. `tags=a&tags=b`.
+ * - `"join"` -> A single comma-separated field, e.g. `tags=a,b`. Tags
+ *   containing commas or quotes are quoted.
+ * - `"json"` -> A single field holding the tags as JSON, keeping object tags
+ *   whole.
+ */
+type TagsSerialization = "repeat" | "join" | "json"
+
+const JOIN_SEPARATOR = ","
+const JOIN_DELIMITER = /,/
+
+/**
+ * Returns the value of each form field for `tags`. Object tags contribute
+ * their `value`, except with `"json"`.
+ */
+function serializeTags(
+  tags: Tag<Primitive>[],
+  serialization: TagsSerialization = "repeat"
+): string[] {
+  if (serialization === "json") return [JSON.stringify(tags)]
+
+  const values = tags.map((tag) => String(isObject(tag) ? tag.value : tag))
+  if (serialization === "join") {
+    return [
+      values
+        .map((value) => quoteToken(value, JOIN_DELIMITER))
+        .join(JOIN_SEPARATOR),
+    ]
+  }
+  return values
+}
+
+/**
+ * Reads back the tags a `TagsInput` with the same `name` and `serialize`
+ * submitted. Fields that are missing or malformed give no tags.
+ *
+ * The result comes from the client, so check it again, e.g. with
+ * `validateTags`, before trusting it. `T` is not checked: `"repeat"` and
+ * `"join"` always give strings.
+ */
+function parseTagsFromFormData<T extends Tag<Primitive> = string>(
+  formData: FormData,
+  name: string,
+  serialization: TagsSerialization = "repeat"
+): T[] {
+  const fields = formData
+    .getAll(name)
+    .filter((field): field is string => typeof field === "string")
+
+  if (serialization === "repeat") return fields as T[]
+
+  const [field] = fields
+  if (!field) return []
+
+  if (serialization === "join") {
+    const { tokens, pending } = tokenize(field, JOIN_DELIMITER, "quoted")
+    return [...tokens, pending] as T[]
+  }
+
+  try {
+    const tags: unknown = JSON.parse(field)
+    return Array.isArray(tags) ? tags : []
+  } catch {
+    return []
+  }
+}
+
+export { serializeTags, parseTagsFromFormData }
+
+export type { TagsSerialization }
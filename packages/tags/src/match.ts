@@ -0,0 +1,196 @@
+/**
+ * Framework-agnostic matchers used to filter and rank suggestions against
+ * the text typed into the input. Nothing in this module may import React or
+ * touch the DOM.
+ */
+
+/**
+ * Half-open `[start, end)` range of matched characters in the original
+ * label.
+ */
+type MatchRange = [start: number, end: number]
+
+interface SuggestionMatch {
+  /**
+   * Higher scores rank first; only meaningful between results of the same
+   * matcher.
+   */
+  score: number
+  ranges: MatchRange[]
+}
+
+interface MatcherOptions {
+  /**
+   * Whether upper and lower case are told apart. Diacritics are always
+   * ignored, so "cafe" matches "Café".
+   */
+  caseSensitive?: boolean
+}
+
+/**
+ * Returns the match of `query` in `label`, or `null` when it does not match.
+ */
+type SuggestionMatcher = (
+  label: string,
+  query: string,
+  options?: MatcherOptions
+) => SuggestionMatch | null
+
+type SuggestionMatcherName = "prefix" | "substring" | "fuzzy"
+
+interface FoldedText {
+  text: string
+  // Range of each folded character in the original text
+  starts: number[]
+  ends: number[]
+}
+
+const COMBINING_MARKS = /\p{M}/gu
+
+// Folds case and strips diacritics character by character, keeping track of
+// where each folded character came from so ranges map back to the label
+function foldText(text: string, caseSensitive: boolean): FoldedText {
+  const folded: FoldedText = { text: "", starts: [], ends: [] }
+
+  let index = 0
+  for (const char of text) {
+    const base = char.normalize("NFD").replace(COMBINING_MARKS, "")
+    const foldedChar = caseSensitive ? base : base.toLowerCase()
+
+    for (let i = 0; i < foldedChar.length; i++) {
+      folded.starts.push(index)
+      folded.ends.push(index + char.length)
+    }
+    folded.text += foldedChar
+    index += char.length
+  }
+
+  return folded
+}
+
+// Maps a range of the folded text back to the original text
+function toOriginalRange(
+  folded: FoldedText,
+  start: number,
+  end: number
+): MatchRange {
+  return [folded.starts[start] ?? 0, folded.ends[end - 1] ?? 0]
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[\s\-_./]/.test(text[index - 1] ?? "")
+}
+
+const prefixMatcher: SuggestionMatcher = (label, query, options = {}) => {
+  const caseSensitive = options.caseSensitive ?? false
+  const foldedQuery = foldText(query, caseSensitive).text
+  if (!foldedQuery) return { score: 0, ranges: [] }
+
+  const folded = foldText(label, caseSensitive)
+  if (!folded.text.startsWith(foldedQuery)) return null
+
+  return {
+    score: foldedQuery.length / folded.text.length,
+    ranges: [toOriginalRange(folded, 0, foldedQuery.length)],
+  }
+}
+
+const substringMatcher: SuggestionMatcher = (label, query, options = {}) => {
+  const caseSensitive = options.caseSensitive ?? false
+  const foldedQuery = foldText(query, caseSensitive).text
+  if (!foldedQuery) return { score: 0, ranges: [] }
+
+  const folded = foldText(label, caseSensitive)
+  const start = folded.text.indexOf(foldedQuery)
+  if (start === -1) return null
+
+  // Earlier matches and matches at a word start rank higher
+  const score =
+    foldedQuery.length / folded.text.length +
+    (start === 0 ? 2 : isWordStart(folded.text, start) ? 1 : 0) -
+    start / folded.text.length
+
+  return {
+    score,
+    ranges: [toOriginalRange(folded, start, start + foldedQuery.length)],
+  }
+}
+
+/**
+ * Matches the query as a subsequence of the label, e.g. "tsx" in
+ * "TypeScript XML". Consecutive characters and word starts score higher,
+ * gaps lower.
+ */
+const fuzzyMatcher: SuggestionMatcher = (label, query, options = {}) => {
+  const caseSensitive = options.caseSensitive ?? false
+  const foldedQuery = foldText(query, caseSensitive).text
+  if (!foldedQuery) return { score: 0, ranges: [] }
+
+  const folded = foldText(label, caseSensitive)
+  const foldedRanges: MatchRange[] = []
+
+  let score = 0
+  let queryIndex = 0
+  let lastMatch = -1
+
+  for (
+    let i = 0;
+    i < folded.text.length && queryIndex < foldedQuery.length;
+    i++
+  ) {
+    if (folded.text[i] !== foldedQuery[queryIndex]) continue
+
+    const isConsecutive = lastMatch === i - 1
+    score += 1
+    if (isConsecutive) score += 2
+    if (isWordStart(folded.text, i)) score += 3
+    if (lastMatch !== -1 && !isConsecutive) score -= (i - lastMatch - 1) * 0.1
+
+    const lastRange = foldedRanges.at(-1)
+    if (lastRange && isConsecutive) {
+      lastRange[1] = i + 1
+    } else {
+      foldedRanges.push([i, i + 1])
+    }
+
+    lastMatch = i
+    queryIndex++
+  }
+
+  if (queryIndex < foldedQuery.length) return null
+
+  return {
+    score: score / folded.text.length,
+    ranges: foldedRanges.map(([start, end]) =>
+      toOriginalRange(folded, start, end)
+    ),
+  }
+}
+
+const matchers: Record<SuggestionMatcherName, SuggestionMatcher> = {
+  prefix: prefixMatcher,
+  substring: substringMatcher,
+  fuzzy: fuzzyMatcher,
+}
+
+function resolveMatcher(
+  matcher: SuggestionMatcherName | SuggestionMatcher
+): SuggestionMatcher {
+  return typeof matcher === "function" ? matcher : matchers[matcher]
+}
+
+export {
+  prefixMatcher,
+  substringMatcher,
+  fuzzyMatcher,
+  matchers,
+  resolveMatcher,
+}
+
+export type {
+  MatchRange,
+  SuggestionMatch,
+  MatcherOptions,
+  SuggestionMatcher,
+  SuggestionMatcherName,
+}
@@ -6,46 +6,252 @@ import { Slot } from "@radix-ui/react-slot"
 import { cva } from "class-variance-authority"
 import { X } from "lucide-react"
 
+import { useCallbackRef } from "@repo/hooks/use-callback-ref"
 import { useControllableState } from "@repo/hooks/use-controllable-state"
 import { Button } from "@repo/ui/button"
 import { Input } from "@repo/ui/input"
 import { cn } from "@repo/ui/utils"
 
+import type {
+  ExtendedObject,
+  Primitive,
+  Tag,
+  TagInput,
+  TagRejection,
+  TagsEvent,
+  TagsOptions,
+  TagsState,
+  TagTransform,
+  ValueType,
+} from "./core"
+import type { TagsSerialization } from "./form"
+import type {
+  MatchRange,
+  SuggestionMatch,
+  SuggestionMatcher,
+  SuggestionMatcherName,
+} from "./match"
+import type { Tokenizer } from "./tokenize"
+import {
+  checkTagText,
+  createRejection,
+  getTagLength,
+  getTagsValidity,
+  getValidationMessage,
+  isObject,
+  normalizeTag,
+  tagsReducer,
+  transformTagValue,
+} from "./core"
+import { serializeTags } from "./form"
+import {
+  fuzzyMatcher,
+  prefixMatcher,
+  resolveMatcher,
+  substringMatcher,
+} from "./match"
+import { quoteToken, tokenize } from "./tokenize"
+
 const TAG_ID_PREFIX = "tag"
 
-type Primitive = string | number
+// Clipboard format carrying the full tags, so objects survive copy and paste
+const TAGS_MIME_TYPE = "application/x-tags-input+json"
+
+// Suggestions remembered to resolve typed text, the least recently seen
+// being forgotten first
+const KNOWN_SUGGESTIONS_LIMIT = 1000
+
+type DataAttributes = { [key: `data-${string}`]: string | undefined }
+
+type PropsWithRef<P, E> = P & DataAttributes & { ref?: React.Ref<E> }
+
+type RootProps = PropsWithRef<
+  React.HTMLAttributes<HTMLDivElement>,
+  HTMLDivElement
+>
+
+interface InputDelimiterProps {
+  /**
+   * Delimiters that split the input into several tags, either `Delimiters`
+   * members, any other string or a `RegExp`. Typing one commits the pending
+   * tag right away.
+   *
+   * @default [Delimiters.Comma]
+   */
+  delimiters?: Delimiter[]
+
+  /**
+   * Whether pasted text is split on the delimiters. When `false`, the pasted
+   * text is added as a single tag.
+   *
+   * @default true
+   */
+  splitOnPaste?: boolean
+
+  /**
+   * How text is split into tags. `"quoted"` keeps delimiters inside double
+   * quotes or escaped with a backslash, e.g. `"New York, NY"`, and quotes
+   * copied tags that need it so they paste back unchanged.
+   *
+   * @default "split"
+   */
+  tokenizer?: Tokenizer
+}
+
+type InputProps = PropsWithRef<
+  React.InputHTMLAttributes<HTMLInputElement> & InputDelimiterProps,
+  HTMLInputElement
+>
+
+type TagProps = PropsWithRef<
+  React.HTMLAttributes<HTMLElement> & { disabled?: boolean },
+  HTMLElement
+>
 
-type Wrapper<T extends Primitive> = {
-  value: T
+type TagGetterProps = Omit<TagProps, "disabled" | "ref"> & {
+  ref: React.RefCallback<HTMLElement>
 }
 
-type ExtendedObject<T extends Primitive> = Wrapper<T> & {
-  [key: string]: unknown
+type TagTextProps = PropsWithRef<
+  React.HTMLAttributes<HTMLSpanElement>,
+  HTMLSpanElement
+>
+
+type TagEditInputProps = PropsWithRef<
+  React.InputHTMLAttributes<HTMLInputElement>,
+  HTMLInputElement
+>
+
+type SuggestionsProps = PropsWithRef<
+  React.HTMLAttributes<HTMLDivElement>,
+  HTMLDivElement
+>
+
+type SuggestionProps = PropsWithRef<
+  React.HTMLAttributes<HTMLDivElement>,
+  HTMLDivElement
+>
+
+type DeleteProps = PropsWithRef<
+  React.ButtonHTMLAttributes<HTMLButtonElement>,
+  HTMLButtonElement
+>
+
+type HiddenInputProps = PropsWithRef<
+  React.InputHTMLAttributes<HTMLInputElement>,
+  HTMLInputElement
+>
+
+/**
+ * Imperative handle exposed through the `apiRef` prop of `TagsInput`.
+ * Every mutation goes through the same rules as the keyboard path.
+ */
+interface TagsInputApi<T extends Tag<Primitive>> {
+  addTags: (tag: TagInput<T> | TagInput<T>[]) => void
+  removeTag: (index: number) => void
+  removeWhere: (predicate: (tag: T, index: number) => boolean) => void
+  clear: () => void
+  focusInput: () => void
+  focusTag: (index: number) => void
+  getTags: () => T[]
 }
 
-type Tag<T extends Primitive> = T | Wrapper<T> | ExtendedObject<T>
+type SuggestionsStatus = "idle" | "loading" | "success" | "error"
 
-// Context Type
-interface TagsInputContextType<T extends Tag<Primitive>> {
+/**
+ * Value returned by `useTagsInputState`, also exposed through the
+ * `TagsInput` context.
+ */
+interface UseTagsInputStateReturn<T extends Tag<Primitive>> {
   tags: T[]
-  addTags: (tag: Primitive | Primitive[]) => void
+  addTags: (tag: TagInput<T> | TagInput<T>[]) => void
   removeTag: (index: number) => void
+  api: TagsInputApi<T>
+  rejection: TagRejection<T> | null
+  isValid: boolean
+  isBelowMin: boolean
+  isAtMax: boolean
+  isTagPending: (index: number) => boolean
+  tagKeys: string[]
+  tagElements: HTMLElement[]
+  registerTag: (element: HTMLElement) => () => void
+  editingIndex: number | null
+  startEdit: (index: number) => void
+  cancelEdit: () => void
+  commitEdit: (value: string, restoreFocus?: boolean) => boolean
+  moveTag: (from: number, to: number) => void
+  dragState: { from: number; to: number } | null
+  announcement: string
+  selectedIndices: number[]
+  setSelectedIndices: (indices: number[]) => void
+  isTagSelected: (index: number) => boolean
+  selectAll: () => void
+  clearSelection: () => void
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+  inputValue: string
+  setInputValue: (value: string) => void
+  commitInputValue: () => void
+  inputLength: number
+  remainingTagLength: number | null
+  inputRejection: TagRejection<T> | null
+  isSuggestionsOpen: boolean
+  setSuggestionsOpen: (open: boolean) => void
+  highlightedSuggestionId: string | null
+  isSuggestionVisible: (suggestion: T) => boolean
+  getSuggestionMatch: (suggestion: T) => SuggestionMatch | null
+  commitSuggestion: (suggestion: T) => void
+  suggestions: T[]
+  suggestionsStatus: SuggestionsStatus
+  suggestionsError: unknown
+  isSuggestionsEmpty: boolean
+  canCreateTag: boolean
+  isCreatingTag: boolean
+  createTag: (input: string) => Promise<void>
+  rootRef: React.RefObject<HTMLDivElement>
   inputRef: React.RefObject<HTMLInputElement>
   keyBindings: Record<React.KeyboardEvent["key"], TagsInputKeyActions>
   isTagNonInteractive: boolean
+  getRootProps: (props?: RootProps) => RootProps
+  getTagListProps: (
+    props?: React.HTMLAttributes<HTMLDivElement>
+  ) => React.HTMLAttributes<HTMLDivElement>
+  getInputProps: (
+    props?: InputProps
+  ) => Omit<InputProps, keyof InputDelimiterProps>
+  getTagProps: (index: number, props?: TagProps) => TagGetterProps
+  getTagTextProps: (index: number, props?: TagTextProps) => TagTextProps
+  getTagEditInputProps: (
+    index: number,
+    props?: TagEditInputProps
+  ) => TagEditInputProps
+  getDeleteProps: (index: number, props?: DeleteProps) => DeleteProps
+  getLiveRegionProps: (
+    props?: React.HTMLAttributes<HTMLDivElement>
+  ) => React.HTMLAttributes<HTMLDivElement>
+  getInputHintProps: (
+    props?: React.HTMLAttributes<HTMLDivElement>
+  ) => React.HTMLAttributes<HTMLDivElement>
+  getHiddenInputProps: (props?: HiddenInputProps) => HiddenInputProps[]
+  getSuggestionsProps: (props?: SuggestionsProps) => SuggestionsProps
+  getSuggestionProps: (
+    suggestion: T,
+    props?: SuggestionProps
+  ) => SuggestionProps
+  getCreateSuggestionProps: (props?: SuggestionProps) => SuggestionProps
 }
 
+// Context Type
+type TagsInputContextType<T extends Tag<Primitive>> = UseTagsInputStateReturn<T>
+
 /**
- * Props for the TagsInput component.
+ * Options accepted by the headless `useTagsInputState` hook.
  *
  * @template T - A generic type extending `Tag<Primitive>`, where `Primitive` is `string` or `number`.
- * @extends {Omit<React.HTMLAttributes<HTMLDivElement>, "onChange" | "defaultValue">}
  */
-interface TagsInputProps<T extends Tag<Primitive>>
-  extends Omit<
-    React.HTMLAttributes<HTMLDivElement>,
-    "onChange" | "defaultValue" | "children"
-  > {
+interface UseTagsInputStateProps<T extends Tag<Primitive>> {
   /**
    * Array of tags representing the current value.
    * Each tag can be one of the following:
@@ -102,24 +308,47 @@ interface TagsInputProps<T extends Tag<Primitive>>
   parseInput?: (input: Primitive) => ExtendedObject<Primitive>
 
   /**
-   * Custom renderable children or a function component.
+   * Transforms applied in order to the text of every added or edited tag,
+   * before duplicates are checked. Built-ins such as `trim`, `lowercase` and
+   * `slugify` come from `@repo/tags/transform`.
+   *
+   * @example
+   * transformTag={[trim, collapseWhitespace, lowercase]}
    */
-  children?: React.ReactNode | ((props: { tags: T[] }) => React.ReactNode)
+  transformTag?: TagTransform | TagTransform[]
 
   /**
-   * Layout direction for displaying tags.
-   * Can be "row" for horizontal or "column" for vertical layout.
+   * Type of the value typed text is turned into before `parseInput`.
+   * `"number"` reads numbers in `locale` and refuses other text with the
+   * `type` reason; `"auto"` only turns text that reads back the same into
+   * numbers, so "007" stays text.
    *
-   * @default "column"
+   * @default "string"
    */
-  orientation?: "row" | "column"
+  valueType?: ValueType
 
   /**
-   * Whether the tags are displayed inline or not.
+   * Locale used to read numbers, e.g. `"de-DE"` reads "1.234,5" as 1234.5.
+   * Defaults to the runtime's locale.
+   */
+  locale?: string
+
+  /**
+   * Turns typed text into the tag value before `parseInput`, instead of
+   * `valueType`. Return `null` to refuse the text with the `type` reason.
    *
-   * @default false
+   * @example
+   * parseValue={(raw) => (/^#[0-9a-f]{6}$/i.test(raw) ? raw.toLowerCase() : null)}
    */
-  inline?: boolean
+  parseValue?: (raw: string) => Primitive | null
+
+  /**
+   * Layout direction for displaying tags.
+   * Can be "row" for horizontal or "column" for vertical layout.
+   *
+   * @default "column"
+   */
+  orientation?: "row" | "column"
 
   /**
    * Maximum number of tags allowed.
@@ -132,13 +361,48 @@ interface TagsInputProps<T extends Tag<Primitive>>
 
   /**
    * Minimum number of tags required.
-   * Ensures at least this many tags are present.
+   * Adding is never blocked by it; removals below it follow `minTagsMode`,
+   * and the component is flagged as invalid while below the minimum.
    *
    * @example
    * minTags={1}
    */
   minTags?: number
 
+  /**
+   * What happens when a removal would leave fewer than `minTags` tags.
+   *
+   * - `"block"` -> The removal is refused and reported with the `minTags` reason.
+   * - `"allow"` -> The removal goes through and the component becomes invalid.
+   *
+   * @default "block"
+   */
+  minTagsMode?: "block" | "allow"
+
+  /**
+   * Minimum number of characters of a tag. Shorter text is refused with the
+   * `minLength` reason.
+   */
+  minTagLength?: number
+
+  /**
+   * Maximum number of characters of a tag. Longer text is refused with the
+   * `maxLength` reason and flags the input while it is being typed.
+   *
+   * @example
+   * maxTagLength={30}
+   */
+  maxTagLength?: number
+
+  /**
+   * Pattern the whole text of a tag has to match. Other text is refused
+   * with the `pattern` reason and flags the input while it is being typed.
+   *
+   * @example
+   * allowedPattern={/^[a-z0-9-]+$/}
+   */
+  allowedPattern?: RegExp
+
   /**
    * Whether duplicate tags are allowed.
    * Duplicates are determined based on the tag's value.
@@ -188,6 +452,247 @@ interface TagsInputProps<T extends Tag<Primitive>>
    * }}
    */
   keyboardCommands?: Record<React.KeyboardEvent["key"], TagsInputKeyActions>
+
+  /**
+   * Custom validation run on every tag that passed the built-in checks.
+   * Return an error message (or `false`) to reject the tag.
+   *
+   * @example
+   * validateTag={(tag) => (String(tag).length > 20 ? "Tag is too long" : true)}
+   */
+  validateTag?: (
+    tag: T,
+    context: { tags: T[] }
+  ) => string | boolean | null | undefined
+
+  /**
+   * Callback invoked for every input refused while adding or editing tags.
+   *
+   * @param rejection - The refused input, the reason and a readable message.
+   * @example
+   * onTagRejected={({ input, reason }) => console.log(input, reason)}
+   */
+  onTagRejected?: (rejection: TagRejection<T>) => void
+
+  /**
+   * Asynchronous validation run after a tag passed the synchronous checks.
+   * The tag is added right away and marked as pending; it is removed and
+   * reported through `onTagRejected` if the promise resolves to an error
+   * message (or `false`) or rejects. The signal aborts when the validation
+   * is superseded or the tag is removed.
+   *
+   * @example
+   * validateTagAsync={async (tag, { signal }) => {
+   *   const res = await fetch(`/api/labels/${tag}`, { signal })
+   *   return res.ok || "Unknown label"
+   * }}
+   */
+  validateTagAsync?: (
+    tag: T,
+    context: { tags: T[]; signal: AbortSignal }
+  ) => Promise<string | boolean | null | undefined>
+
+  /**
+   * Callback invoked after a tag was edited inline.
+   *
+   * @param index - Position of the edited tag.
+   * @param prev - The tag before the edit.
+   * @param next - The tag after the edit.
+   */
+  onTagEdit?: (index: number, prev: T, next: T) => void
+
+  /**
+   * Whether tags can be reordered by dragging them with the pointer or
+   * with the `MoveLeft`/`MoveRight` key actions (Alt+Arrow by default).
+   *
+   * @default true
+   */
+  reorderable?: boolean
+
+  /**
+   * Callback invoked after a tag was moved to another position.
+   *
+   * @param from - Previous position of the tag.
+   * @param to - New position of the tag.
+   */
+  onTagMove?: (from: number, to: number) => void
+
+  /**
+   * Where focus goes after tags are removed. `"neighbor"` focuses the chip
+   * that took the removed one's place, or the previous chip when the last
+   * one was removed, and falls back to the input when no tags remain or the
+   * removal started from the input.
+   *
+   * @default "neighbor"
+   */
+  focusAfterRemove?: "neighbor" | "input" | "none"
+
+  /**
+   * Whether text left in the input is added as tags when the input loses
+   * focus.
+   *
+   * @default false
+   */
+  addOnBlur?: boolean
+
+  /**
+   * Whether text left in the input is added as tags when its form is
+   * submitted. It is added before the form's own submit handlers run, so
+   * they already see the new tags.
+   *
+   * @default false
+   */
+  addOnSubmit?: boolean
+
+  /**
+   * Name under which the tags are submitted with their form, through hidden
+   * inputs. Without it, the tags are left out of `FormData`.
+   */
+  name?: string
+
+  /**
+   * How the tags are written to the hidden inputs when `name` is set. Read
+   * them back on the server with `parseTagsFromFormData` and the same value.
+   *
+   * - `"repeat"` -> One field per tag, e.g. `tags=a&tags=b`.
+   * - `"join"` -> A single comma-separated field, quoting tags as needed.
+   * - `"json"` -> A single JSON field, keeping object tags whole.
+   *
+   * @default "repeat"
+   */
+  serialize?: TagsSerialization
+
+  /**
+   * The controlled indices of the selected tags.
+   */
+  selectedIndices?: number[]
+
+  /**
+   * The initially selected indices when uncontrolled.
+   */
+  defaultSelectedIndices?: number[]
+
+  /**
+   * Callback invoked when the selection changes.
+   *
+   * @param indices - The indices of the selected tags, in ascending order.
+   */
+  onSelectedIndicesChange?: (indices: number[]) => void
+
+  /**
+   * Number of changes kept for undo. Set to `0` to disable the history.
+   *
+   * @default 100
+   */
+  historyDepth?: number
+
+  /**
+   * Loads the suggestions for the text typed into the input. Stale queries
+   * are aborted through the signal and results are cached per query.
+   *
+   * @example
+   * loadSuggestions={async (query, { signal }) => {
+   *   const res = await fetch(`/api/tags?q=${query}`, { signal })
+   *   return res.json()
+   * }}
+   */
+  loadSuggestions?: (
+    query: string,
+    context: { signal: AbortSignal }
+  ) => Promise<T[]>
+
+  /**
+   * Delay in milliseconds after the last keystroke before `loadSuggestions`
+   * is called.
+   *
+   * @default 200
+   */
+  suggestionsDebounce?: number
+
+  /**
+   * Number of queries whose suggestions are kept in memory.
+   *
+   * @default 50
+   */
+  suggestionsCacheSize?: number
+
+  /**
+   * How suggestions are matched against the input text: one of the
+   * built-in `"prefix"`, `"substring"` or `"fuzzy"` matchers, or a custom
+   * one returning a score and the matched ranges. Case is folded unless
+   * `caseSensitiveDuplicates` is set; diacritics are always ignored.
+   *
+   * @default "substring"
+   */
+  suggestionMatcher?: SuggestionMatcherName | SuggestionMatcher
+
+  /**
+   * Whether tags that are not among the suggestions may be added. A function
+   * receives the typed text and decides per tag. Refused input is reported
+   * with the `unknown` reason.
+   *
+   * @default true
+   */
+  creatable?: boolean | ((input: string) => boolean)
+
+  /**
+   * Tells whether a tag belongs to the vocabulary, e.g. by looking it up in
+   * a list of allowed labels. With `creatable={false}`, only known tags and
+   * suggestions already loaded may be added; suggestions alone are not the
+   * vocabulary, so without this check text typed or pasted before its
+   * suggestions load is refused.
+   */
+  isKnownTag?: (tag: T) => boolean
+
+  /**
+   * Called to create a tag from typed text that matches no suggestion, e.g.
+   * to persist it. The returned tag (such as an object with an `id`) is
+   * added instead of the text; a rejected promise reports the tag as
+   * `invalid`.
+   */
+  onCreateTag?: (input: string) => T | void | Promise<T | void>
+
+  /**
+   * Returns a stable identity for a tag, used for React keys and DOM ids so
+   * they follow the tag rather than its position. Defaults to the `id` of
+   * object tags, otherwise the normalized value.
+   */
+  getTagKey?: (tag: T) => string
+}
+
+/**
+ * Props for the TagsInput component.
+ *
+ * @template T - A generic type extending `Tag<Primitive>`, where `Primitive` is `string` or `number`.
+ * @extends {Omit<React.HTMLAttributes<HTMLDivElement>, "onChange" | "defaultValue">}
+ */
+interface TagsInputProps<T extends Tag<Primitive>>
+  extends UseTagsInputStateProps<T>,
+    Omit<
+      React.HTMLAttributes<HTMLDivElement>,
+      "onChange" | "defaultValue" | "children"
+    > {
+  /**
+   * Custom renderable children or a function component.
+   */
+  children?: React.ReactNode | ((props: { tags: T[] }) => React.ReactNode)
+
+  /**
+   * Whether the tags are displayed inline or not.
+   *
+   * @default false
+   */
+  inline?: boolean
+
+  /**
+   * Ref receiving the imperative API of the component.
+   *
+   * @example
+   * const apiRef = React.useRef<TagsInputApi<string>>(null)
+   * // ...
+   * apiRef.current?.addTags("new tag")
+   */
+  apiRef?: React.Ref<TagsInputApi<T>>
 }
 
 interface TagsInputItemProps
@@ -195,6 +700,14 @@ interface TagsInputItemProps
     VariantProps<typeof tagsInputItemVariants> {
   asChild?: boolean
   disabled?: boolean
+
+  /**
+   * Index of the tag this item renders. Provided by `TagsInputItems`;
+   * outside of it, pass it when chips may be skipped or rendered
+   * conditionally, as the position among the rendered chips is used
+   * otherwise.
+   */
+  index?: number
 }
 
 interface TagsInputItemTextProps
@@ -205,12 +718,18 @@ export enum Delimiters {
   Comma = ",",
   Semicolon = ";",
   Space = " ",
+  Newline = "\n",
+  Tab = "\t",
 }
 
+type Delimiter = Delimiters | (string & {}) | RegExp
+
 const DelimiterPatterns: Record<Delimiters, RegExp> = {
   [Delimiters.Comma]: /,\s*/,
   [Delimiters.Semicolon]: /;\s*/,
   [Delimiters.Space]: /\s+/,
+  [Delimiters.Newline]: /\r?\n/,
+  [Delimiters.Tab]: /\t/,
 }
 
 export enum TagsInputKeyActions {
@@ -218,6 +737,14 @@ export enum TagsInputKeyActions {
   Remove = "remove",
   NavigateLeft = "navigateLeft",
   NavigateRight = "navigateRight",
+  Edit = "edit",
+  MoveLeft = "moveLeft",
+  MoveRight = "moveRight",
+  SelectLeft = "selectLeft",
+  SelectRight = "selectRight",
+  SelectAll = "selectAll",
+  Undo = "undo",
+  Redo = "redo",
 }
 
 const defaultKeyBindings: Record<
@@ -229,6 +756,52 @@ const defaultKeyBindings: Record<
   Backspace: TagsInputKeyActions.Remove,
   ArrowLeft: TagsInputKeyActions.NavigateLeft,
   ArrowRight: TagsInputKeyActions.NavigateRight,
+  F2: TagsInputKeyActions.Edit,
+  "Alt+ArrowLeft": TagsInputKeyActions.MoveLeft,
+  "Alt+ArrowRight": TagsInputKeyActions.MoveRight,
+  "Alt+ArrowUp": TagsInputKeyActions.MoveLeft,
+  "Alt+ArrowDown": TagsInputKeyActions.MoveRight,
+  "Shift+ArrowLeft": TagsInputKeyActions.SelectLeft,
+  "Shift+ArrowRight": TagsInputKeyActions.SelectRight,
+  "Shift+ArrowUp": TagsInputKeyActions.SelectLeft,
+  "Shift+ArrowDown": TagsInputKeyActions.SelectRight,
+  "Mod+A": TagsInputKeyActions.SelectAll,
+  "Mod+Z": TagsInputKeyActions.Undo,
+  "Mod+Shift+Z": TagsInputKeyActions.Redo,
+  "Ctrl+Y": TagsInputKeyActions.Redo,
+}
+
+/**
+ * Resolves the action bound to a keyboard event. Bindings may combine
+ * modifiers with a key, e.g. `"Alt+ArrowLeft"` or `"Mod+Z"`, where `Mod` is
+ * Ctrl or Cmd. Combos win over a binding of the bare key.
+ */
+function getKeyAction(
+  keyBindings: Record<React.KeyboardEvent["key"], TagsInputKeyActions>,
+  e: React.KeyboardEvent
+): TagsInputKeyActions | undefined {
+  const key = e.key.length === 1 ? e.key.toUpperCase() : e.key
+  const combo = (modifiers: (string | false)[]) =>
+    [...modifiers.filter(Boolean), key].join("+")
+
+  return (
+    keyBindings[
+      combo([
+        e.ctrlKey && "Ctrl",
+        e.metaKey && "Meta",
+        e.altKey && "Alt",
+        e.shiftKey && "Shift",
+      ])
+    ] ??
+    keyBindings[
+      combo([
+        (e.ctrlKey || e.metaKey) && "Mod",
+        e.altKey && "Alt",
+        e.shiftKey && "Shift",
+      ])
+    ] ??
+    keyBindings[e.key]
+  )
 }
 
 const TagsInputContext = React.createContext<TagsInputContextType<
@@ -254,7 +827,7 @@ function forwardRefWithGenerics<T, P = {}>(
 }
 
 function mergeRefs<T>(
-  ...refs: Array<React.MutableRefObject<T> | React.LegacyRef<T>>
+  ...refs: Array<React.MutableRefObject<T> | React.LegacyRef<T> | undefined>
 ): React.RefCallback<T> {
   return (value) => {
     refs.forEach((ref) => {
@@ -267,222 +840,2270 @@ function mergeRefs<T>(
   }
 }
 
-function isObject<T extends Primitive>(
-  value: Tag<T>
-): value is ExtendedObject<T> {
-  return (
-    typeof value === "object" &&
-    value !== null &&
-    !Array.isArray(value) &&
-    "value" in value &&
-    Object.prototype.toString.call(value) === "[object Object]"
-  )
-}
+function composeEventHandlers<E extends React.SyntheticEvent>(
+  externalHandler: ((event: E) => void) | undefined,
+  internalHandler: (event: E) => void
+): (event: E) => void {
+  return (event) => {
+    if (externalHandler) {
+      externalHandler(event)
 
-const TagsInput = forwardRefWithGenerics(
-  <T extends Tag<Primitive>>(
-    {
-      value,
-      defaultValue,
-      onChange,
-      className,
-      children,
-      orientation = "column",
-      inline = false,
-      maxTags,
-      minTags,
-      allowDuplicates = false,
-      caseSensitiveDuplicates = false,
-      disabled = false,
-      readOnly = false,
-      keyboardCommands = defaultKeyBindings,
-      parseInput,
-      ...rest
-    }: TagsInputProps<T>,
-    ref: React.Ref<HTMLDivElement>
-  ) => {
-    const [_tags, _setTags] = useControllableState({
-      prop: value,
-      defaultProp: defaultValue,
-      onChange,
-    })
+      if (event.defaultPrevented) {
+        return
+      }
+    }
 
-    const inputRef = React.useRef<HTMLInputElement>(null)
+    internalHandler(event)
+  }
+}
 
-    const isTagNonInteractive = disabled || readOnly
+function getTagLabel(tag: Tag<Primitive>): string {
+  return String(isObject(tag) ? tag.value : tag)
+}
 
-    const tags = _tags ?? []
+// Objects are identified by their `id` when they have one, other tags by
+// their normalized value
+function getDefaultTagKey(tag: Tag<Primitive>, caseSensitive: boolean): string {
+  if (
+    isObject(tag) &&
+    (typeof tag.id === "string" || typeof tag.id === "number")
+  ) {
+    return String(tag.id)
+  }
+  return normalizeTag(tag, caseSensitive)
+}
 
-    const keyBindings = React.useMemo(() => {
-      return { ...defaultKeyBindings, ...keyboardCommands }
-    }, [defaultKeyBindings, keyboardCommands])
+// Map-backed cache evicting the least recently used entry when full
+function createLruCache<V>(maxSize: number) {
+  const entries = new Map<string, V>()
 
-    const setTags = React.useCallback(
-      (updatedTags: T[] | ((prevTags: T[]) => T[])) => {
-        const resolveTags = (prevTags: T[]): T[] => {
-          const tags =
-            typeof updatedTags === "function"
-              ? updatedTags(prevTags)
-              : updatedTags
-          return tags
-        }
+  return {
+    get(key: string): V | undefined {
+      const value = entries.get(key)
+      if (value !== undefined) {
+        entries.delete(key)
+        entries.set(key, value)
+      }
+      return value
+    },
+    set(key: string, value: V) {
+      entries.delete(key)
+      entries.set(key, value)
+      if (entries.size > maxSize) {
+        const oldestKey = entries.keys().next().value
+        if (oldestKey !== undefined) entries.delete(oldestKey)
+      }
+    },
+  }
+}
 
-        _setTags((prevTags) => {
-          return resolveTags(prevTags ?? [])
-        })
-      },
-      [_setTags]
-    )
+function serializeClipboardTags(tags: Tag<Primitive>[]): string {
+  return JSON.stringify(tags)
+}
 
-    // Helper function to normalize tag values for comparison
-    const normalizeTag = (tag: T, caseSensitive: boolean): string => {
-      if (isObject(tag)) {
-        return caseSensitive
-          ? String(tag.value)
-          : String(tag.value).toLowerCase()
-      }
-      return caseSensitive ? String(tag) : String(tag).toLowerCase()
+// Returns null unless the data is a list of tags written by a TagsInput
+function parseClipboardTags(data: string): Tag<Primitive>[] | null {
+  if (!data) return null
+
+  try {
+    const tags: unknown = JSON.parse(data)
+    const isPrimitive = (value: unknown) =>
+      typeof value === "string" || typeof value === "number"
+
+    if (
+      !Array.isArray(tags) ||
+      !tags.every(
+        (tag) =>
+          isPrimitive(tag) ||
+          (typeof tag === "object" && tag !== null && isPrimitive(tag.value))
+      )
+    ) {
+      return null
     }
-
-    // Checks for duplicates based on the unique normalized tag and normalized existing tag
-    const isDuplicate = React.useCallback(
-      (
-        normalizedTag: Primitive,
-        uniqueNormalizedTags: Set<Primitive>,
-        normalizedExistingTags: Set<Primitive>
-      ): boolean => {
-        return (
-          uniqueNormalizedTags.has(normalizedTag) ||
-          normalizedExistingTags.has(normalizedTag)
+    return tags as Tag<Primitive>[]
+  } catch {
+    return null
+  }
+}
+
+function isSameTags(a: unknown[], b: unknown[]): boolean {
+  return a.length === b.length && a.every((tag, index) => tag === b[index])
+}
+
+// Drops the snapshots equal to the one before them, starting from `tags`
+function dedupeSnapshots<T>(snapshots: T[][], tags: T[]): T[][] {
+  const result: T[][] = []
+  let prevSnapshot = tags
+  for (const snapshot of snapshots) {
+    if (isSameTags(snapshot, prevSnapshot)) continue
+    result.push(snapshot)
+    prevSnapshot = snapshot
+  }
+  return result
+}
+
+// Drops detached elements and sorts the rest by their position in the document
+function orderByDocumentPosition(elements: HTMLElement[]): HTMLElement[] {
+  return Array.from(new Set(elements))
+    .filter((element) => element.isConnected)
+    .sort((a, b) =>
+      a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_PRECEDING ? 1 : -1
+    )
+}
+
+function isDelimitersMember(delimiter: string): delimiter is Delimiters {
+  return Object.values<string>(Delimiters).includes(delimiter)
+}
+
+// One pattern per delimiter, so each RegExp keeps its own flags
+function createDelimiterPatterns(delimiters: Delimiter[]): RegExp[] {
+  return delimiters.map((delimiter) => {
+    if (delimiter instanceof RegExp) return delimiter
+    if (isDelimitersMember(delimiter)) return DelimiterPatterns[delimiter]
+    return new RegExp(delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  })
+}
+
+// Joins copied tags so that pasting them back splits them again
+function getDelimiterSeparator(delimiters: Delimiter[]): string {
+  const delimiter = delimiters.find(
+    (delimiter): delimiter is string =>
+      typeof delimiter === "string" && delimiter !== ""
+  )
+  if (delimiter === undefined) return `${Delimiters.Comma} `
+  return delimiter.trim() ? `${delimiter} ` : delimiter
+}
+
+/**
+ * Headless hook holding the tag state and behavior of `TagsInput`.
+ * Returns the state alongside prop getters, so the same keyboard, paste and
+ * validation logic can be spread onto any markup.
+ *
+ * @example
+ * const { tags, getRootProps, getInputProps, getTagProps, getDeleteProps } =
+ *   useTagsInputState({ defaultValue: ["react"] })
+ */
+function useTagsInputState<T extends Tag<Primitive>>({
+  value,
+  defaultValue,
+  onChange,
+  orientation = "column",
+  maxTags,
+  minTags,
+  minTagsMode = "block",
+  minTagLength,
+  maxTagLength,
+  allowedPattern,
+  allowDuplicates = false,
+  caseSensitiveDuplicates = false,
+  disabled = false,
+  readOnly = false,
+  keyboardCommands = defaultKeyBindings,
+  parseInput,
+  transformTag,
+  valueType,
+  locale,
+  parseValue,
+  validateTag,
+  onTagRejected,
+  validateTagAsync,
+  onTagEdit,
+  reorderable = true,
+  onTagMove,
+  focusAfterRemove = "neighbor",
+  addOnBlur = false,
+  addOnSubmit = false,
+  name,
+  serialize = "repeat",
+  selectedIndices: selectedIndicesProp,
+  defaultSelectedIndices,
+  onSelectedIndicesChange,
+  historyDepth = 100,
+  loadSuggestions,
+  suggestionsDebounce = 200,
+  suggestionsCacheSize = 50,
+  suggestionMatcher = "substring",
+  creatable = true,
+  onCreateTag,
+  isKnownTag: isKnownTagProp,
+  getTagKey,
+}: UseTagsInputStateProps<T>): UseTagsInputStateReturn<T> {
+  const [_tags, _setTags] = useControllableState({
+    prop: value,
+    defaultProp: defaultValue,
+    onChange,
+  })
+
+  const id = React.useId()
+
+  const rootRef = React.useRef<HTMLDivElement>(null)
+  const inputRef = React.useRef<HTMLInputElement>(null)
+
+  const isTagNonInteractive = disabled || readOnly
+
+  const tags = _tags ?? []
+
+  const keyBindings = React.useMemo(() => {
+    return { ...defaultKeyBindings, ...keyboardCommands }
+  }, [defaultKeyBindings, keyboardCommands])
+
+  const setTags = React.useCallback(
+    (updatedTags: T[] | ((prevTags: T[]) => T[])) => {
+      const resolveTags = (prevTags: T[]): T[] => {
+        const tags =
+          typeof updatedTags === "function"
+            ? updatedTags(prevTags)
+            : updatedTags
+        return tags
+      }
+
+      _setTags((prevTags) => {
+        return resolveTags(prevTags ?? [])
+      })
+    },
+    [_setTags]
+  )
+
+  const [rejection, setRejection] = React.useState<TagRejection<T> | null>(null)
+
+  const [_selectedIndices, _setSelectedIndices] = useControllableState({
+    prop: selectedIndicesProp,
+    defaultProp: defaultSelectedIndices,
+    onChange: onSelectedIndicesChange,
+  })
+
+  const selectedIndices = _selectedIndices ?? []
+
+  const selectedIndicesRef = React.useRef(selectedIndices)
+  selectedIndicesRef.current = selectedIndices
+
+  // Tag a Shift+Arrow or Shift+click selection extends from
+  const selectionAnchorRef = React.useRef<number | null>(null)
+
+  const setSelectedIndices = React.useCallback(
+    (indices: number[]) => {
+      const nextIndices = Array.from(new Set(indices)).sort((a, b) => a - b)
+      const prevIndices = selectedIndicesRef.current
+      if (
+        nextIndices.length === prevIndices.length &&
+        nextIndices.every((index, i) => index === prevIndices[i])
+      ) {
+        return
+      }
+
+      selectedIndicesRef.current = nextIndices
+      _setSelectedIndices(nextIndices)
+    },
+    [_setSelectedIndices]
+  )
+
+  const clearSelection = React.useCallback(() => {
+    selectionAnchorRef.current = null
+    setSelectedIndices([])
+  }, [setSelectedIndices])
+
+  const memoizedParseInput = React.useMemo(() => parseInput, [])
+  const handleValidateTag = useCallbackRef(validateTag)
+  const handleParseValue = useCallbackRef(parseValue)
+  const hasParseValue = parseValue !== undefined
+  // A pipeline is usually passed inline, so keep one stable function
+  const handleTransformTag = useCallbackRef((value: string) =>
+    transformTagValue(value, transformTag)
+  )
+  const hasTransformTag = transformTag !== undefined
+  const handleTagRejected = useCallbackRef(onTagRejected)
+
+  // Suggestions rendered or loaded recently, by normalized value, so typed
+  // text can be resolved to them. With `creatable={false}` they count as
+  // known tags alongside `isKnownTag`, which holds the full vocabulary
+  const knownSuggestionsRef = React.useRef(new Map<string, T>())
+  const handleIsKnownTag = useCallbackRef(isKnownTagProp)
+  const hasKnownTagCheck = isKnownTagProp !== undefined
+
+  const isKnownTag = React.useCallback(
+    (tag: T) =>
+      knownSuggestionsRef.current.has(
+        normalizeTag(tag, caseSensitiveDuplicates)
+      ) ||
+      (hasKnownTagCheck && handleIsKnownTag(tag)),
+    [caseSensitiveDuplicates, hasKnownTagCheck, handleIsKnownTag]
+  )
+
+  const registerSuggestions = React.useCallback(
+    (suggestions: T[]) => {
+      const knownSuggestions = knownSuggestionsRef.current
+      suggestions.forEach((suggestion) => {
+        const key = normalizeTag(suggestion, caseSensitiveDuplicates)
+        knownSuggestions.delete(key)
+        knownSuggestions.set(key, suggestion)
+      })
+
+      for (const key of knownSuggestions.keys()) {
+        if (knownSuggestions.size <= KNOWN_SUGGESTIONS_LIMIT) break
+        knownSuggestions.delete(key)
+      }
+    },
+    [caseSensitiveDuplicates]
+  )
+
+  const options = React.useMemo<TagsOptions<T>>(
+    () => ({
+      maxTags,
+      minTags,
+      minTagsMode,
+      minTagLength,
+      maxTagLength,
+      allowedPattern,
+      allowDuplicates,
+      caseSensitiveDuplicates,
+      transformTag: hasTransformTag ? handleTransformTag : undefined,
+      valueType,
+      locale,
+      parseValue: hasParseValue ? handleParseValue : undefined,
+      parseInput: memoizedParseInput,
+      validateTag: handleValidateTag,
+      creatable,
+      isKnownTag,
+    }),
+    [
+      hasTransformTag,
+      handleTransformTag,
+      valueType,
+      locale,
+      hasParseValue,
+      handleParseValue,
+      maxTags,
+      minTags,
+      minTagsMode,
+      minTagLength,
+      maxTagLength,
+      allowedPattern,
+      allowDuplicates,
+      caseSensitiveDuplicates,
+      memoizedParseInput,
+      handleValidateTag,
+      creatable,
+      isKnownTag,
+    ]
+  )
+
+  // Latest tags, updated synchronously so consecutive dispatches in the same
+  // tick build on each other instead of on a stale render
+  const tagsRef = React.useRef(tags)
+  tagsRef.current = tags
+
+  const handleGetTagKey = useCallbackRef(getTagKey)
+  const hasCustomTagKey = getTagKey !== undefined
+
+  // Keys of a list of tags; repeated keys (e.g. with `allowDuplicates`) get
+  // a numbered suffix so every key stays unique
+  const getTagKeys = React.useCallback(
+    (tagList: T[]) => {
+      const counts = new Map<string, number>()
+
+      return tagList.map((tag) => {
+        const key = hasCustomTagKey
+          ? handleGetTagKey(tag)
+          : getDefaultTagKey(tag, caseSensitiveDuplicates)
+        const count = (counts.get(key) ?? 0) + 1
+        counts.set(key, count)
+        return count === 1 ? key : `${key}~${count}`
+      })
+    },
+    [hasCustomTagKey, handleGetTagKey, caseSensitiveDuplicates]
+  )
+
+  const tagKeys = React.useMemo(() => getTagKeys(tags), [getTagKeys, tags])
+
+  const getTagDataId = React.useCallback(
+    (index: number) => `${TAG_ID_PREFIX}-${tagKeys[index] ?? index}`,
+    [tagKeys]
+  )
+
+  // Chips register themselves, so their order comes from the DOM however
+  // deeply they are wrapped, rather than from where they sit among siblings
+  const [tagElements, setTagElements] = React.useState<HTMLElement[]>([])
+  const tagElementsRef = React.useRef(tagElements)
+  tagElementsRef.current = tagElements
+
+  const updateTagElements = React.useCallback(
+    (update: (elements: HTMLElement[]) => HTMLElement[]) => {
+      setTagElements((prev) => {
+        const next = orderByDocumentPosition(update(prev))
+        return next.length === prev.length &&
+          next.every((element, i) => element === prev[i])
+          ? prev
+          : next
+      })
+    },
+    []
+  )
+
+  const registerTag = React.useCallback(
+    (element: HTMLElement) => {
+      if (!tagElementsRef.current.includes(element)) {
+        updateTagElements((elements) => [...elements, element])
+      }
+      return () =>
+        updateTagElements((elements) =>
+          elements.filter((item) => item !== element)
         )
+    },
+    [updateTagElements]
+  )
+
+  // Ref callback for `getTagProps`, which cannot unregister on its own;
+  // detached chips are dropped on the next update instead
+  const registerTagRef = React.useCallback(
+    (element: HTMLElement | null) => {
+      if (element) registerTag(element)
+    },
+    [registerTag]
+  )
+
+  // Reordering moves chips in the DOM without registering them again
+  React.useLayoutEffect(() => {
+    updateTagElements((elements) => elements)
+  }, [tags, updateTagElements])
+
+  // Registered chips that are still in the document, in DOM order
+  const getTagElements = React.useCallback(
+    () => tagElementsRef.current.filter((element) => element.isConnected),
+    []
+  )
+
+  // Position of a chip, read from its `data-id`
+  const getTagIndex = React.useCallback(
+    (element: Element | null | undefined): number | null => {
+      const dataId = element?.getAttribute("data-id")
+      if (!dataId) return null
+
+      const index = tagKeys.findIndex(
+        (key) => `${TAG_ID_PREFIX}-${key}` === dataId
+      )
+      return index === -1 ? null : index
+    },
+    [tagKeys]
+  )
+
+  // Snapshots of the tags before and after each recorded change
+  const [history, _setHistory] = React.useState<{ past: T[][]; future: T[][] }>(
+    () => ({ past: [], future: [] })
+  )
+  const historyRef = React.useRef(history)
+
+  const setHistory = React.useCallback(
+    (nextHistory: { past: T[][]; future: T[][] }) => {
+      historyRef.current = nextHistory
+      _setHistory(nextHistory)
+    },
+    []
+  )
+
+  const dispatch = React.useCallback(
+    (event: TagsEvent<T>): TagsState<T> => {
+      const prevState = { tags: tagsRef.current }
+      const nextState = tagsReducer(prevState, event, options)
+
+      if (nextState.tags !== prevState.tags) {
+        tagsRef.current = nextState.tags
+        setTags(nextState.tags)
+        // Indices no longer point at the same tags
+        clearSelection()
+
+        // SET replaces the tags without being a user change, e.g. when
+        // undoing or dropping a tag that failed async validation
+        if (event.type !== "SET" && historyDepth > 0) {
+          setHistory({
+            past: [...historyRef.current.past, prevState.tags].slice(
+              -historyDepth
+            ),
+            future: [],
+          })
+        }
+      }
+
+      const rejections = nextState.rejections ?? []
+      rejections.forEach((rejection) => handleTagRejected(rejection))
+      setRejection(rejections.at(-1) ?? null)
+
+      return nextState
+    },
+    [
+      options,
+      setTags,
+      handleTagRejected,
+      clearSelection,
+      historyDepth,
+      setHistory,
+    ]
+  )
+
+  const undo = React.useCallback(() => {
+    const { past, future } = historyRef.current
+    const prevTags = past.at(-1)
+    if (isTagNonInteractive || prevTags === undefined) return
+
+    setHistory({
+      past: past.slice(0, -1),
+      future: [tagsRef.current, ...future],
+    })
+    dispatch({ type: "SET", tags: prevTags })
+  }, [isTagNonInteractive, setHistory, dispatch])
+
+  const redo = React.useCallback(() => {
+    const { past, future } = historyRef.current
+    const [nextTags, ...restFuture] = future
+    if (isTagNonInteractive || nextTags === undefined) return
+
+    setHistory({ past: [...past, tagsRef.current], future: restFuture })
+    dispatch({ type: "SET", tags: nextTags })
+  }, [isTagNonInteractive, setHistory, dispatch])
+
+  const canUndo = !isTagNonInteractive && history.past.length > 0
+  const canRedo = !isTagNonInteractive && history.future.length > 0
+
+  const [pendingKeys, setPendingKeys] = React.useState<ReadonlySet<string>>(
+    () => new Set()
+  )
+  const pendingValidationsRef = React.useRef(new Map<string, AbortController>())
+  const handleValidateTagAsync = useCallbackRef(validateTagAsync)
+  const hasAsyncValidation = validateTagAsync !== undefined
+
+  const settleValidation = React.useCallback((key: string) => {
+    pendingValidationsRef.current.delete(key)
+    setPendingKeys((prevKeys) => {
+      const nextKeys = new Set(prevKeys)
+      nextKeys.delete(key)
+      return nextKeys
+    })
+  }, [])
+
+  // Validations are tracked by tag key rather than value, so with
+  // `allowDuplicates` a copy being validated never affects an earlier one
+  const validateTagsAsync = React.useCallback(
+    (indices: number[]) => {
+      if (!hasAsyncValidation) return
+
+      const keys = getTagKeys(tagsRef.current)
+      for (const index of indices) {
+        const tag = tagsRef.current[index]
+        const key = keys[index]
+        if (tag === undefined || key === undefined) continue
+
+        // Supersede any validation still running for the same tag
+        pendingValidationsRef.current.get(key)?.abort()
+
+        const controller = new AbortController()
+        pendingValidationsRef.current.set(key, controller)
+        setPendingKeys((prevKeys) => new Set(prevKeys).add(key))
+
+        handleValidateTagAsync(tag, {
+          tags: tagsRef.current,
+          signal: controller.signal,
+        })
+          .then(getValidationMessage, (error: unknown) =>
+            error instanceof Error ? error.message : String(error)
+          )
+          .then((errorMessage) => {
+            if (controller.signal.aborted) return
+
+            settleValidation(key)
+            if (errorMessage === undefined) return
+
+            // Invalid tags are dropped regardless of `minTagsMode`, and from
+            // the history too, so that undo does not stop at the list without
+            // them and redo cannot bring them back unvalidated
+            const withoutTag = (snapshot: T[]) => {
+              const snapshotKeys = getTagKeys(snapshot)
+              return snapshot.filter((_, i) => snapshotKeys[i] !== key)
+            }
+            const { tags: updatedTags } = dispatch({
+              type: "SET",
+              tags: withoutTag(tagsRef.current),
+            })
+            const { past, future } = historyRef.current
+            setHistory({
+              past: dedupeSnapshots(
+                past.map(withoutTag).reverse(),
+                updatedTags
+              ).reverse(),
+              future: dedupeSnapshots(future.map(withoutTag), updatedTags),
+            })
+
+            const rejection: TagRejection<T> = {
+              input: tag,
+              reason: "invalid",
+              message: errorMessage,
+            }
+            handleTagRejected(rejection)
+            setRejection(rejection)
+          })
+      }
+    },
+    [
+      hasAsyncValidation,
+      getTagKeys,
+      handleValidateTagAsync,
+      settleValidation,
+      dispatch,
+      setHistory,
+      handleTagRejected,
+    ]
+  )
+
+  // Cancel validations of tags that left the list
+  React.useEffect(() => {
+    const keys = new Set(tagKeys)
+    pendingValidationsRef.current.forEach((controller, key) => {
+      if (!keys.has(key)) {
+        controller.abort()
+        settleValidation(key)
+      }
+    })
+  }, [tagKeys, settleValidation])
+
+  React.useEffect(() => {
+    const pendingValidations = pendingValidationsRef.current
+    return () => {
+      pendingValidations.forEach((controller) => controller.abort())
+    }
+  }, [])
+
+  const isTagPending = React.useCallback(
+    (index: number) => {
+      const key = tagKeys[index]
+      return key !== undefined && pendingKeys.has(key)
+    },
+    [tagKeys, pendingKeys]
+  )
+
+  const addTags = React.useCallback(
+    (tag: TagInput<T> | TagInput<T>[]) => {
+      if (isTagNonInteractive || tag == null) return
+
+      const prevTags = tagsRef.current
+      const { tags: updatedTags } = dispatch({ type: "ADD", tags: tag })
+
+      validateTagsAsync(
+        updatedTags.slice(prevTags.length).map((_, i) => prevTags.length + i)
+      )
+    },
+    [isTagNonInteractive, dispatch, validateTagsAsync]
+  )
+
+  const removeTags = React.useCallback(
+    (index: number | number[]): boolean => {
+      if (isTagNonInteractive) return false
+
+      const prevTags = tagsRef.current
+      return dispatch({ type: "REMOVE", index }).tags !== prevTags
+    },
+    [isTagNonInteractive, dispatch]
+  )
+
+  const focusTag = React.useCallback(
+    (index: number) => {
+      const dataId = getTagDataId(index)
+      getTagElements()
+        .find((element) => element.getAttribute("data-id") === dataId)
+        ?.focus()
+    },
+    [getTagDataId, getTagElements]
+  )
+
+  // Tag to focus once the next update has been rendered, as its chip may
+  // only exist after the change
+  const pendingFocusIndexRef = React.useRef<number | null>(null)
+
+  React.useLayoutEffect(() => {
+    if (pendingFocusIndexRef.current === null) return
+    focusTag(pendingFocusIndexRef.current)
+    pendingFocusIndexRef.current = null
+  }, [tags, focusTag])
+
+  // Removes tags, then moves focus as configured by `focusAfterRemove`
+  const removeTagsAndFocus = React.useCallback(
+    (index: number | number[], fromInput = false) => {
+      const tagCount = tagsRef.current.length
+      if (!removeTags(index) || focusAfterRemove === "none") return
+
+      const removed = Array.isArray(index) ? index : [index]
+      const kept = Array.from({ length: tagCount }, (_, i) => i).filter(
+        (i) => !removed.includes(i)
+      )
+      const last = Math.max(...removed)
+      const neighbor = kept.find((i) => i > last) ?? kept.at(-1)
+
+      if (focusAfterRemove === "input" || fromInput || neighbor === undefined) {
+        inputRef.current?.focus()
+      } else {
+        // Focused once the chips have re-rendered at their new positions
+        pendingFocusIndexRef.current = kept.indexOf(neighbor)
+      }
+    },
+    [removeTags, focusAfterRemove]
+  )
+
+  const removeTag = React.useCallback(
+    (index: number) => removeTagsAndFocus(index),
+    [removeTagsAndFocus]
+  )
+
+  const isTagSelected = React.useCallback(
+    (index: number) => selectedIndices.includes(index),
+    [selectedIndices]
+  )
+
+  // Indices of the rendered tags that are not disabled
+  const getSelectableIndices = React.useCallback((): number[] => {
+    return getTagElements().flatMap((element) => {
+      const index = getTagIndex(element)
+      return index === null || element.hasAttribute("data-disabled")
+        ? []
+        : [index]
+    })
+  }, [getTagElements, getTagIndex])
+
+  const selectAll = React.useCallback(() => {
+    if (isTagNonInteractive) return
+    setSelectedIndices(getSelectableIndices())
+  }, [isTagNonInteractive, setSelectedIndices, getSelectableIndices])
+
+  // Selects every tag between the anchor and `index`, moving focus to it
+  const extendSelection = React.useCallback(
+    (index: number) => {
+      const anchor = selectionAnchorRef.current ?? index
+      selectionAnchorRef.current = anchor
+
+      const [start, end] = anchor < index ? [anchor, index] : [index, anchor]
+      setSelectedIndices(
+        getSelectableIndices().filter((i) => i >= start && i <= end)
+      )
+      focusTag(index)
+    },
+    [setSelectedIndices, getSelectableIndices, focusTag]
+  )
+
+  const toggleSelection = React.useCallback(
+    (index: number) => {
+      const indices = selectedIndicesRef.current
+      selectionAnchorRef.current = index
+      setSelectedIndices(
+        indices.includes(index)
+          ? indices.filter((i) => i !== index)
+          : [...indices, index]
+      )
+    },
+    [setSelectedIndices]
+  )
+
+  // Removes all selected tags in a single update
+  const removeSelected = React.useCallback(
+    (fromInput = false) =>
+      removeTagsAndFocus(selectedIndicesRef.current, fromInput),
+    [removeTagsAndFocus]
+  )
+
+  // Delimiters of the rendered input, the first string one joins copied tags
+  const inputDelimitersRef = React.useRef<Delimiter[]>([Delimiters.Comma])
+  const inputTokenizerRef = React.useRef<Tokenizer>("split")
+
+  // Tags the clipboard acts on: the selection when focus is on a selected
+  // tag or the empty input, otherwise the focused tag
+  const getClipboardIndices = React.useCallback((): number[] => {
+    const activeElement = document.activeElement
+    if (!activeElement || !rootRef.current?.contains(activeElement)) return []
+
+    const selection = selectedIndicesRef.current
+    if (activeElement === inputRef.current) {
+      return inputRef.current.value === "" ? selection : []
+    }
+
+    const index = getTagIndex(activeElement)
+    if (index === null) return []
+    return selection.includes(index) ? selection : [index]
+  }, [getTagIndex])
+
+  React.useEffect(() => {
+    const handleClipboard = (e: ClipboardEvent) => {
+      const indices = getClipboardIndices()
+      const copiedTags = indices.flatMap((index) => {
+        const tag = tagsRef.current[index]
+        return tag === undefined ? [] : [tag]
+      })
+      if (!copiedTags.length || !e.clipboardData) return
+
+      const delimiters = inputDelimitersRef.current
+      const delimiterPatterns = createDelimiterPatterns(delimiters)
+      const labels = copiedTags.map(getTagLabel)
+
+      e.preventDefault()
+      e.clipboardData.setData(
+        "text/plain",
+        (inputTokenizerRef.current === "quoted"
+          ? labels.map((label) => quoteToken(label, delimiterPatterns))
+          : labels
+        ).join(getDelimiterSeparator(delimiters))
+      )
+      e.clipboardData.setData(
+        TAGS_MIME_TYPE,
+        serializeClipboardTags(copiedTags)
+      )
+
+      if (e.type === "cut") {
+        removeTagsAndFocus(indices, document.activeElement === inputRef.current)
+      }
+    }
+
+    document.addEventListener("copy", handleClipboard)
+    document.addEventListener("cut", handleClipboard)
+    return () => {
+      document.removeEventListener("copy", handleClipboard)
+      document.removeEventListener("cut", handleClipboard)
+    }
+  }, [getClipboardIndices, removeTagsAndFocus])
+
+  const [announcement, setAnnouncement] = React.useState("")
+  const handleTagMove = useCallbackRef(onTagMove)
+
+  const moveTag = React.useCallback(
+    (from: number, to: number) => {
+      if (isTagNonInteractive || !reorderable) return
+
+      const prevTags = tagsRef.current
+      const { tags: updatedTags } = dispatch({ type: "MOVE", from, to })
+      if (updatedTags === prevTags) return
+
+      handleTagMove(from, to)
+      setAnnouncement(
+        `Moved ${getTagLabel(updatedTags[to] as T)} to position ${to + 1} of ${updatedTags.length}`
+      )
+
+      // Keep focus on the moved tag when it was moved from the keyboard
+      if (rootRef.current?.contains(document.activeElement)) {
+        pendingFocusIndexRef.current = to
+      }
+    },
+    [isTagNonInteractive, reorderable, dispatch, handleTagMove]
+  )
+
+  const [dragState, setDragState] = React.useState<{
+    from: number
+    to: number
+  } | null>(null)
+  const dragPointerRef = React.useRef<{
+    pointerId: number
+    from: number
+    x: number
+    y: number
+  } | null>(null)
+
+  // Index of the tag under the pointer, if any
+  const getTagIndexAtPoint = React.useCallback(
+    (x: number, y: number): number | null => {
+      const element = document
+        .elementFromPoint(x, y)
+        ?.closest<HTMLElement>("[data-id]")
+      if (!element || !getTagElements().includes(element)) return null
+
+      return getTagIndex(element)
+    },
+    [getTagElements, getTagIndex]
+  )
+
+  const [editingIndex, setEditingIndex] = React.useState<number | null>(null)
+  // Mirrors `editingIndex` synchronously, so the blur that follows a commit
+  // or cancel does not commit a second time
+  const editingIndexRef = React.useRef<number | null>(null)
+  const handleTagEdit = useCallbackRef(onTagEdit)
+
+  const startEdit = React.useCallback(
+    (index: number) => {
+      if (isTagNonInteractive || tagsRef.current[index] === undefined) return
+
+      editingIndexRef.current = index
+      setEditingIndex(index)
+    },
+    [isTagNonInteractive]
+  )
+
+  const stopEdit = React.useCallback(() => {
+    const index = editingIndexRef.current
+    editingIndexRef.current = null
+    setEditingIndex(null)
+    return index
+  }, [])
+
+  const cancelEdit = React.useCallback(() => {
+    const index = stopEdit()
+    if (index !== null) focusTag(index)
+  }, [stopEdit, focusTag])
+
+  // `restoreFocus` moves focus back to the chip, as after `Enter`, rather
+  // than leaving it where the user clicked
+  const commitEdit = React.useCallback(
+    (value: string, restoreFocus = true): boolean => {
+      const index = editingIndexRef.current
+      if (index === null) return false
+
+      const prevTag = tagsRef.current[index] as T
+      const trimmedValue = value.trim()
+
+      // Committing the unchanged text is the same as cancelling
+      if (trimmedValue === getTagLabel(prevTag)) {
+        stopEdit()
+        if (restoreFocus) focusTag(index)
+        return true
+      }
+
+      const { tags: updatedTags, rejections = [] } = dispatch({
+        type: "EDIT",
+        index,
+        tag: trimmedValue,
+      })
+      if (rejections.length > 0) return false
+
+      const nextTag = updatedTags[index] as T
+      stopEdit()
+      // A new value can mean a new key, so the chip may only exist once the
+      // edit has been rendered
+      if (restoreFocus) pendingFocusIndexRef.current = index
+      handleTagEdit(index, prevTag, nextTag)
+      validateTagsAsync([index])
+      return true
+    },
+    [dispatch, stopEdit, focusTag, handleTagEdit, validateTagsAsync]
+  )
+
+  const api = React.useMemo<TagsInputApi<T>>(
+    () => ({
+      addTags,
+      removeTag: (index) => {
+        removeTags(index)
+      },
+      removeWhere: (predicate) => {
+        const indices = tagsRef.current.flatMap((tag, index) =>
+          predicate(tag, index) ? [index] : []
+        )
+        removeTags(indices)
       },
-      []
+      clear: () => {
+        if (isTagNonInteractive) return
+        dispatch({ type: "CLEAR" })
+      },
+      focusInput: () => inputRef.current?.focus(),
+      focusTag,
+      getTags: () => tagsRef.current,
+    }),
+    [addTags, removeTags, isTagNonInteractive, dispatch, focusTag]
+  )
+
+  // Text typed into the input, which stays uncontrolled for the DOM
+  const [inputValue, _setInputValue] = React.useState("")
+
+  const setInputValue = React.useCallback((value: string) => {
+    if (inputRef.current && inputRef.current.value !== value) {
+      inputRef.current.value = value
+    }
+    _setInputValue(value)
+  }, [])
+
+  // The typed text as it would be stored
+  const pendingText = React.useMemo(
+    () => transformTagValue(inputValue.trim(), options.transformTag),
+    [inputValue, options.transformTag]
+  )
+  const inputLength = getTagLength(pendingText)
+  const remainingTagLength =
+    maxTagLength === undefined ? null : maxTagLength - inputLength
+
+  // Flags text that will be refused before it is added. Text that is still
+  // too short is only refused once committed, as it may yet grow
+  const inputRejection = React.useMemo<TagRejection<T> | null>(() => {
+    if (!pendingText) return null
+    const reason = checkTagText(pendingText, { maxTagLength, allowedPattern })
+    return reason ? createRejection<T>(inputValue, reason, options) : null
+  }, [pendingText, inputValue, maxTagLength, allowedPattern, options])
+
+  const inputHintId = `${id}-input-hint`
+
+  const [isSuggestionsOpen, setSuggestionsOpen] = React.useState(false)
+  const [highlightedSuggestionId, setHighlightedSuggestionId] = React.useState<
+    string | null
+  >(null)
+  const [suggestionsElement, setSuggestionsElement] =
+    React.useState<HTMLElement | null>(null)
+
+  // Suggestions rendered in the current pass, looked up by option id
+  const suggestionValuesRef = React.useRef(new Map<string, T>())
+
+  const getSuggestionId = React.useCallback(
+    (suggestion: T) =>
+      `${id}-suggestion-${encodeURIComponent(normalizeTag(suggestion, true))}`,
+    [id]
+  )
+
+  const hasSuggestionsLoader = loadSuggestions !== undefined
+  const handleLoadSuggestions = useCallbackRef(loadSuggestions)
+
+  const [suggestions, setSuggestions] = React.useState<T[]>([])
+  const [suggestionsStatus, setSuggestionsStatus] =
+    React.useState<SuggestionsStatus>("idle")
+  const [suggestionsError, setSuggestionsError] = React.useState<unknown>(null)
+
+  const suggestionsCacheRef = React.useRef<ReturnType<
+    typeof createLruCache<T[]>
+  > | null>(null)
+  if (!suggestionsCacheRef.current) {
+    suggestionsCacheRef.current = createLruCache(suggestionsCacheSize)
+  }
+
+  React.useEffect(() => {
+    if (!hasSuggestionsLoader || !isSuggestionsOpen) return
+
+    const query = inputValue.trim()
+    const cache = suggestionsCacheRef.current
+    const cachedSuggestions = cache?.get(query)
+    if (cachedSuggestions) {
+      registerSuggestions(cachedSuggestions)
+      setSuggestions(cachedSuggestions)
+      setSuggestionsStatus("success")
+      setSuggestionsError(null)
+      return
+    }
+
+    // Aborted as soon as the query changes or the list closes
+    const controller = new AbortController()
+    const timeout = setTimeout(() => {
+      setSuggestionsStatus("loading")
+
+      handleLoadSuggestions(query, { signal: controller.signal }).then(
+        (loadedSuggestions) => {
+          if (controller.signal.aborted) return
+          cache?.set(query, loadedSuggestions)
+          registerSuggestions(loadedSuggestions)
+          setSuggestions(loadedSuggestions)
+          setSuggestionsStatus("success")
+          setSuggestionsError(null)
+        },
+        (error: unknown) => {
+          if (controller.signal.aborted) return
+          setSuggestionsError(error)
+          setSuggestionsStatus("error")
+        }
+      )
+    }, suggestionsDebounce)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [
+    hasSuggestionsLoader,
+    isSuggestionsOpen,
+    inputValue,
+    suggestionsDebounce,
+    handleLoadSuggestions,
+    registerSuggestions,
+  ])
+
+  const getSuggestionMatch = React.useCallback(
+    (suggestion: T) =>
+      resolveMatcher(suggestionMatcher)(
+        getTagLabel(suggestion),
+        inputValue.trim(),
+        { caseSensitive: caseSensitiveDuplicates }
+      ),
+    [suggestionMatcher, inputValue, caseSensitiveDuplicates]
+  )
+
+  const isSuggestionVisible = React.useCallback(
+    (suggestion: T) => {
+      const key = normalizeTag(suggestion, caseSensitiveDuplicates)
+      if (
+        tags.some((tag) => normalizeTag(tag, caseSensitiveDuplicates) === key)
+      ) {
+        return false
+      }
+
+      // Loaded suggestions were already matched by the loader
+      return hasSuggestionsLoader || getSuggestionMatch(suggestion) !== null
+    },
+    [tags, caseSensitiveDuplicates, hasSuggestionsLoader, getSuggestionMatch]
+  )
+
+  const isSuggestionsEmpty =
+    suggestionsStatus === "success" && !suggestions.some(isSuggestionVisible)
+
+  const commitSuggestion = React.useCallback(
+    (suggestion: T) => {
+      addTags(suggestion)
+      setInputValue("")
+      setHighlightedSuggestionId(null)
+      inputRef.current?.focus()
+    },
+    [addTags, setInputValue]
+  )
+
+  const handleCreateTag = useCallbackRef(onCreateTag)
+  const hasCreateHandler = onCreateTag !== undefined
+  const [creatingCount, setCreatingCount] = React.useState(0)
+
+  const isCreatable = React.useCallback(
+    (input: string) =>
+      typeof creatable === "function" ? creatable(input) : creatable,
+    [creatable]
+  )
+
+  const createTag = React.useCallback(
+    async (input: string) => {
+      const trimmedInput = input.trim()
+      if (isTagNonInteractive || !trimmedInput) return
+
+      const rawTag = trimmedInput
+
+      if (!hasCreateHandler) {
+        addTags(rawTag)
+        return
+      }
+
+      // Only persist tags that would be accepted; otherwise let the reducer
+      // report why the text is refused
+      const { rejections = [] } = tagsReducer(
+        { tags: tagsRef.current },
+        { type: "ADD", tags: rawTag },
+        options
+      )
+      if (rejections.length) {
+        addTags(rawTag)
+        return
+      }
+
+      setCreatingCount((count) => count + 1)
+      try {
+        const createdTag = await handleCreateTag(trimmedInput)
+        addTags(createdTag ?? rawTag)
+      } catch (error) {
+        const rejection: TagRejection<T> = {
+          input: rawTag,
+          reason: "invalid",
+          message:
+            error instanceof Error && error.message
+              ? error.message
+              : "This tag could not be created.",
+        }
+        handleTagRejected(rejection)
+        setRejection(rejection)
+      } finally {
+        setCreatingCount((count) => count - 1)
+      }
+    },
+    [
+      isTagNonInteractive,
+      hasCreateHandler,
+      addTags,
+      options,
+      handleCreateTag,
+      handleTagRejected,
+    ]
+  )
+
+  const createSuggestionId = `${id}-suggestion-create`
+
+  // Offered while the typed text is new and may be created
+  const canCreateTag = React.useMemo(() => {
+    const query = inputValue.trim()
+    if (!query || !isCreatable(query)) return false
+
+    const key = normalizeTag(query, caseSensitiveDuplicates)
+    return (
+      !isKnownTag(query as T) &&
+      !tags.some((tag) => normalizeTag(tag, caseSensitiveDuplicates) === key)
     )
+  }, [inputValue, isCreatable, caseSensitiveDuplicates, isKnownTag, tags])
 
-    const memoizedParseInput = React.useMemo(() => parseInput, [])
+  // Moves the highlight through the rendered options, wrapping around
+  const highlightSuggestion = React.useCallback(
+    (direction: 1 | -1) => {
+      if (!suggestionsElement) return
 
-    const addTags = React.useCallback(
-      (tag: Primitive | Primitive[]) => {
-        if (isTagNonInteractive || tag == null) return
+      const options = Array.from(
+        suggestionsElement.querySelectorAll<HTMLElement>(
+          '[role="option"]:not([aria-disabled="true"])'
+        )
+      )
+      if (!options.length) return
+
+      const currentIndex = options.findIndex(
+        (option) => option.id === highlightedSuggestionId
+      )
+      const nextIndex =
+        currentIndex === -1
+          ? direction === 1
+            ? 0
+            : options.length - 1
+          : (currentIndex + direction + options.length) % options.length
+
+      const option = options[nextIndex]
+      option?.scrollIntoView?.({ block: "nearest" })
+      setHighlightedSuggestionId(option?.id ?? null)
+    },
+    [suggestionsElement, highlightedSuggestionId]
+  )
+
+  // Adds the tags typed or pasted as text, one per part
+  const addInputParts = React.useCallback(
+    (parts: string[]) => {
+      const tags = parts.map((part) => part.trim()).filter(Boolean)
+      if (!tags.length) return
+
+      // Text matching a suggestion adds the suggestion itself, e.g. an object
+      // with an id; other text goes through `onCreateTag` when provided
+      const resolvedTags = tags.map(
+        (tag) =>
+          knownSuggestionsRef.current.get(
+            normalizeTag(tag, caseSensitiveDuplicates)
+          ) ?? tag
+      )
+
+      if (!hasCreateHandler) {
+        addTags(resolvedTags)
+        return
+      }
 
-        // Pre-check for the maxTags condition
-        if (maxTags && tags.length >= maxTags) return
+      const isKnown = (tag: TagInput<T>) => isKnownTag(tag as T)
+      addTags(resolvedTags.filter(isKnown))
+      resolvedTags
+        .filter((tag) => !isKnown(tag))
+        .forEach((tag) => createTag(String(tag)))
+    },
+    [addTags, caseSensitiveDuplicates, hasCreateHandler, isKnownTag, createTag]
+  )
 
-        // Pre-check for the minTags condition
-        if (minTags && tags.length < minTags) return
+  const processInputValue = React.useCallback(
+    (value: string, delimiters: Delimiter[], tokenizer: Tokenizer) => {
+      const { tokens, pending } = tokenize(
+        value,
+        createDelimiterPatterns(delimiters),
+        tokenizer
+      )
+      addInputParts([...tokens, pending])
+    },
+    [addInputParts]
+  )
 
-        const arrayTags = Array.isArray(tag) ? tag : [tag]
+  // Adds the text left in the input, as if Enter had been pressed
+  const commitInputValue = React.useCallback(() => {
+    const input = inputRef.current
+    if (isTagNonInteractive || !input || input.disabled || input.readOnly) {
+      return
+    }
+    if (!input.value.trim()) return
 
-        const normalizedExistingTags = new Set(
-          tags.map((tag) => normalizeTag(tag, caseSensitiveDuplicates))
+    processInputValue(
+      input.value,
+      inputDelimitersRef.current,
+      inputTokenizerRef.current
+    )
+    setInputValue("")
+  }, [isTagNonInteractive, processInputValue, setInputValue])
+
+  // Listening on the form itself runs before React's `onSubmit` handlers,
+  // which are only called once the event has bubbled up to the root
+  React.useEffect(() => {
+    const form = inputRef.current?.form
+    if (!addOnSubmit || !form) return
+
+    form.addEventListener("submit", commitInputValue)
+    return () => form.removeEventListener("submit", commitInputValue)
+  }, [addOnSubmit, commitInputValue])
+
+  const getTagTextId = React.useCallback(
+    (index: number) =>
+      `${id}-${TAG_ID_PREFIX}-${encodeURIComponent(tagKeys[index] ?? index)}`,
+    [id, tagKeys]
+  )
+
+  const { isValid, isBelowMin, isAtMax } = React.useMemo(
+    () => getTagsValidity(tags, { minTags, maxTags }),
+    [tags, minTags, maxTags]
+  )
+
+  const getRootProps = React.useCallback(
+    ({ ref, ...props }: RootProps = {}): RootProps => ({
+      "data-orientation": orientation,
+      "data-disabled": isTagNonInteractive ? "" : undefined,
+      "data-invalid": isValid ? undefined : "",
+      "aria-invalid": isValid ? undefined : true,
+      ...props,
+      ref: mergeRefs(rootRef, ref),
+    }),
+    [orientation, isTagNonInteractive, isValid]
+  )
+
+  // The chips form a multi-selectable listbox, so their selection is exposed
+  // through `aria-selected`
+  const getTagListProps = React.useCallback(
+    (
+      props: React.HTMLAttributes<HTMLDivElement> = {}
+    ): React.HTMLAttributes<HTMLDivElement> => ({
+      role: "listbox",
+      "aria-label": "Tags",
+      "aria-multiselectable": true,
+      "aria-disabled": isTagNonInteractive || undefined,
+      ...props,
+    }),
+    [isTagNonInteractive]
+  )
+
+  const getInputProps = React.useCallback(
+    ({
+      ref,
+      onChange,
+      onKeyDown,
+      onPaste,
+      onFocus,
+      onBlur,
+      disabled = false,
+      readOnly = false,
+      delimiters = [Delimiters.Comma],
+      splitOnPaste = true,
+      tokenizer = "split",
+      ...props
+    }: InputProps = {}): Omit<InputProps, keyof InputDelimiterProps> => {
+      const isInputNonInteractive = disabled || readOnly || isTagNonInteractive
+      inputDelimitersRef.current = delimiters
+      inputTokenizerRef.current = tokenizer
+
+      const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (isInputNonInteractive) return
+
+        const input = e.currentTarget
+        const command = getKeyAction(keyBindings, e)
+
+        if (suggestionsElement && !e.altKey) {
+          if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+            e.preventDefault()
+            setSuggestionsOpen(true)
+            highlightSuggestion(e.key === "ArrowDown" ? 1 : -1)
+            return
+          }
+
+          if (e.key === "Escape" && isSuggestionsOpen) {
+            e.preventDefault()
+            setSuggestionsOpen(false)
+            setHighlightedSuggestionId(null)
+            return
+          }
+
+          const isCommitKey =
+            command === TagsInputKeyActions.Add ||
+            (e.key === "Tab" && !e.shiftKey)
+
+          if (
+            isCommitKey &&
+            isSuggestionsOpen &&
+            canCreateTag &&
+            highlightedSuggestionId === createSuggestionId
+          ) {
+            e.preventDefault()
+            createTag(input.value)
+            setInputValue("")
+            setHighlightedSuggestionId(null)
+            return
+          }
+
+          // Enter or Tab picks the highlighted suggestion over the typed text
+          const suggestion =
+            highlightedSuggestionId !== null
+              ? suggestionValuesRef.current.get(highlightedSuggestionId)
+              : undefined
+          if (suggestion !== undefined && isSuggestionsOpen && isCommitKey) {
+            e.preventDefault()
+            commitSuggestion(suggestion)
+            return
+          }
+        }
+
+        if (command === TagsInputKeyActions.Remove) {
+          if (input.value === "") {
+            if (selectedIndicesRef.current.length) {
+              e.preventDefault()
+              return removeSelected(true)
+            }
+
+            const lastNonDisabledTag = getTagElements()
+              .filter((element) => !element.hasAttribute("data-disabled"))
+              .pop()
+            if (lastNonDisabledTag) {
+              return lastNonDisabledTag.focus() // Focus the last non-disabled tag
+            }
+          }
+        } else if (command === TagsInputKeyActions.Add) {
+          e.preventDefault()
+          processInputValue(input.value, delimiters, tokenizer)
+          setInputValue("")
+        } else if (
+          command === TagsInputKeyActions.SelectAll &&
+          input.value === ""
+        ) {
+          e.preventDefault()
+          selectAll()
+        } else if (
+          (command === TagsInputKeyActions.Undo ||
+            command === TagsInputKeyActions.Redo) &&
+          input.value === ""
+        ) {
+          // With text in the input, the browser undoes the typing instead
+          e.preventDefault()
+          if (command === TagsInputKeyActions.Undo) undo()
+          else redo()
+        }
+      }
+
+      // Typing again dismisses the last rejection and the selection
+      const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setRejection(null)
+        clearSelection()
+        setSuggestionsOpen(true)
+        setHighlightedSuggestionId(null)
+
+        // Typing a delimiter commits everything before it, keeping the rest,
+        // including an unfinished quote
+        const { tokens, rest } = tokenize(
+          e.currentTarget.value,
+          createDelimiterPatterns(delimiters),
+          tokenizer
         )
+        if (tokens.length) {
+          addInputParts(tokens)
+          setInputValue(rest)
+        } else {
+          _setInputValue(rest)
+        }
+      }
 
-        const uniqueNormalizedTags = new Set<Primitive>()
-        const tagsToAdd: T[] = []
+      const hasSuggestions = suggestionsElement !== null
+      const isExpanded = hasSuggestions && isSuggestionsOpen
 
-        for (const singleTag of arrayTags) {
-          // Preprocess the tag if a parseInput function is provided
-          const parsedTag = memoizedParseInput
-            ? memoizedParseInput(singleTag)
-            : singleTag
+      const handleInputPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+        if (isInputNonInteractive) return
 
-          const normalizedTag = normalizeTag(
-            parsedTag as T,
-            caseSensitiveDuplicates
-          )
+        // Tags copied from a TagsInput are restored as they were
+        const pastedTags = parseClipboardTags(
+          e.clipboardData.getData(TAGS_MIME_TYPE)
+        )
+        if (pastedTags) {
+          addTags(pastedTags as T[])
+        } else {
+          const text = e.clipboardData.getData("text")
+          if (splitOnPaste) {
+            processInputValue(text, delimiters, tokenizer)
+          } else {
+            processInputValue(text, [], "split")
+          }
+        }
+        e.preventDefault()
+      }
 
-          // Check if we can add more tags without exceeding maxTags
-          if (maxTags && tags.length + tagsToAdd.length >= maxTags) {
+      return {
+        autoComplete: "off",
+        autoCorrect: "off",
+        autoCapitalize: "off",
+        "aria-disabled": isInputNonInteractive,
+        disabled: isInputNonInteractive,
+        role: hasSuggestions ? "combobox" : undefined,
+        "aria-autocomplete": hasSuggestions ? "list" : undefined,
+        "aria-expanded": hasSuggestions ? isExpanded : undefined,
+        "aria-controls": hasSuggestions ? suggestionsElement.id : undefined,
+        "aria-activedescendant":
+          isExpanded && highlightedSuggestionId !== null
+            ? highlightedSuggestionId
+            : undefined,
+        "data-invalid": inputRejection ? "" : undefined,
+        "aria-invalid": inputRejection ? true : undefined,
+        "aria-describedby": inputRejection ? inputHintId : undefined,
+        ...props,
+        ref: mergeRefs(inputRef, ref),
+        onChange: composeEventHandlers(onChange, handleInputChange),
+        onKeyDown: composeEventHandlers(onKeyDown, handleInputKeyDown),
+        onPaste: composeEventHandlers(onPaste, handleInputPaste),
+        onFocus: composeEventHandlers(onFocus, () => setSuggestionsOpen(true)),
+        onBlur: composeEventHandlers(onBlur, () => {
+          setSuggestionsOpen(false)
+          setHighlightedSuggestionId(null)
+          if (addOnBlur) commitInputValue()
+        }),
+      }
+    },
+    [
+      isTagNonInteractive,
+      keyBindings,
+      suggestionsElement,
+      isSuggestionsOpen,
+      highlightedSuggestionId,
+      highlightSuggestion,
+      commitSuggestion,
+      canCreateTag,
+      createSuggestionId,
+      createTag,
+      inputRejection,
+      inputHintId,
+      setInputValue,
+      addTags,
+      addInputParts,
+      processInputValue,
+      addOnBlur,
+      commitInputValue,
+      getTagElements,
+      removeSelected,
+      selectAll,
+      clearSelection,
+      undo,
+      redo,
+    ]
+  )
+
+  const getTagProps = React.useCallback(
+    (
+      index: number,
+      {
+        ref,
+        onKeyDown,
+        onClick,
+        onDoubleClick,
+        onPointerDown,
+        onPointerMove,
+        onPointerUp,
+        onPointerCancel,
+        disabled = false,
+        ...props
+      }: TagProps = {}
+    ): TagGetterProps => {
+      const isTagDisabled = isTagNonInteractive || disabled
+      const isPending = isTagPending(index)
+      const isEditing = editingIndex === index
+      const isSelected = selectedIndices.includes(index)
+      const isDragging = dragState?.from === index
+      const isDropTarget =
+        dragState !== null && dragState.from !== index && dragState.to === index
+
+      const handleTagKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+        // Ignore keys bubbling up from the delete button or the edit input
+        if (isTagDisabled || e.target !== e.currentTarget) return
+
+        const action = getKeyAction(keyBindings, e)
+        if (!action) return
+
+        const item = e.currentTarget
+
+        // Neighbouring chips in DOM order, wherever they are rendered
+        const findFocusableSibling = (
+          current: HTMLElement,
+          direction: "previous" | "next"
+        ): HTMLElement | null => {
+          const elements = getTagElements()
+          const step = direction === "previous" ? -1 : 1
+          const start = elements.indexOf(current)
+          if (start === -1) return null
+
+          for (let i = start + step; i >= 0 && i < elements.length; i += step) {
+            const sibling = elements[i]
+            if (sibling && !sibling.hasAttribute("data-disabled")) {
+              return sibling // Found a focusable sibling
+            }
+          }
+
+          return null // No valid sibling found
+        }
+
+        switch (action) {
+          case TagsInputKeyActions.Remove:
+            if (document.activeElement === item) {
+              e.preventDefault()
+              if (isSelected) {
+                removeSelected() // Removes every selected tag at once
+              } else {
+                removeTag(index) // Removes the current tag
+              }
+            }
+            break
+
+          case TagsInputKeyActions.NavigateLeft: {
+            e.preventDefault()
+            // Ctrl/Cmd+Arrow moves focus without dropping the selection
+            if (!e.ctrlKey && !e.metaKey) clearSelection()
+            const prevSibling = findFocusableSibling(item, "previous")
+            if (prevSibling) {
+              prevSibling.focus() // Focus the previous non-disabled tag
+            }
             break
           }
 
-          // Handle duplicates
-          if (allowDuplicates) {
-            tagsToAdd.push(parsedTag as T)
-          } else {
-            if (
-              !isDuplicate(
-                normalizedTag,
-                uniqueNormalizedTags,
-                normalizedExistingTags
-              )
-            ) {
-              uniqueNormalizedTags.add(normalizedTag)
-              tagsToAdd.push(parsedTag as T)
+          case TagsInputKeyActions.NavigateRight: {
+            e.preventDefault()
+            if (!e.ctrlKey && !e.metaKey) clearSelection()
+            const nextSibling = findFocusableSibling(item, "next")
+            if (nextSibling) {
+              nextSibling.focus() // Focus the next non-disabled tag
+            } else {
+              inputRef.current?.focus() // Focuses the input field if no more siblings
             }
+            break
           }
+
+          // Enter on a focused tag edits it, as there is nothing to add
+          case TagsInputKeyActions.Add:
+          case TagsInputKeyActions.Edit:
+            e.preventDefault()
+            startEdit(index)
+            break
+
+          case TagsInputKeyActions.MoveLeft:
+            e.preventDefault()
+            moveTag(index, index - 1)
+            break
+
+          case TagsInputKeyActions.MoveRight:
+            e.preventDefault()
+            moveTag(index, index + 1)
+            break
+
+          case TagsInputKeyActions.SelectLeft:
+          case TagsInputKeyActions.SelectRight: {
+            e.preventDefault()
+            const sibling = findFocusableSibling(
+              item,
+              action === TagsInputKeyActions.SelectLeft ? "previous" : "next"
+            )
+            const siblingIndex = getTagIndex(sibling)
+            if (selectionAnchorRef.current === null || !isSelected) {
+              selectionAnchorRef.current = index
+            }
+            extendSelection(siblingIndex ?? index)
+            break
+          }
+
+          case TagsInputKeyActions.SelectAll:
+            e.preventDefault()
+            selectAll()
+            break
+
+          case TagsInputKeyActions.Undo:
+            e.preventDefault()
+            undo()
+            break
+
+          case TagsInputKeyActions.Redo:
+            e.preventDefault()
+            redo()
+            break
+
+          default:
+            break
         }
+      }
 
-        // Final validation for minTags AFTER adding
-        if (minTags && tags.length + tagsToAdd.length < minTags) {
-          return
+      const handleTagClick = (e: React.MouseEvent<HTMLElement>) => {
+        // Clicks on the label count, not those on the delete button or the
+        // edit input
+        const control = (e.target as HTMLElement).closest("button, input")
+        if (isTagDisabled || (control && control !== e.currentTarget)) return
+
+        if (e.ctrlKey || e.metaKey) {
+          toggleSelection(index)
+        } else if (e.shiftKey) {
+          extendSelection(index)
+        } else {
+          clearSelection()
+          selectionAnchorRef.current = index
         }
+      }
 
-        if (tagsToAdd.length > 0) {
-          setTags((prevTags) => [...prevTags, ...tagsToAdd])
+      const handlePointerDown = (e: React.PointerEvent<HTMLElement>) => {
+        // Only drag from the chip itself, not its delete button or edit input
+        if (!reorderable || isTagDisabled || isEditing || e.button !== 0) return
+        if ((e.target as HTMLElement).closest("button, input")) return
+
+        dragPointerRef.current = {
+          pointerId: e.pointerId,
+          from: index,
+          x: e.clientX,
+          y: e.clientY,
         }
-      },
-      [
-        tags,
-        maxTags,
-        minTags,
-        allowDuplicates,
-        isDuplicate,
-        isTagNonInteractive,
-        memoizedParseInput,
-        caseSensitiveDuplicates,
-        normalizeTag,
-        setTags,
-      ]
-    )
+      }
 
-    const removeTag = React.useCallback(
-      (index: number) => {
-        if (isTagNonInteractive) return
+      const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+        const pointer = dragPointerRef.current
+        if (!pointer || pointer.pointerId !== e.pointerId) return
 
-        // Guard to ensure the index is valid
-        if (index < 0 || index >= tags.length || !Number.isInteger(index)) {
+        if (!dragState) {
+          // Small threshold, so clicks and double-clicks still work
+          const distance = Math.hypot(
+            e.clientX - pointer.x,
+            e.clientY - pointer.y
+          )
+          if (distance < 4) return
+
+          e.currentTarget.setPointerCapture(e.pointerId)
+          setDragState({ from: pointer.from, to: pointer.from })
           return
         }
 
-        const updatedTags = [...tags]
-        updatedTags.splice(index, 1)
-        setTags(updatedTags)
+        const targetIndex = getTagIndexAtPoint(e.clientX, e.clientY)
+        if (targetIndex !== null && targetIndex !== dragState.to) {
+          setDragState({ from: pointer.from, to: targetIndex })
+        }
+      }
 
-        inputRef.current?.focus()
-      },
-      [isTagNonInteractive, tags]
-    )
+      const endDrag = (e: React.PointerEvent<HTMLElement>, drop: boolean) => {
+        const pointer = dragPointerRef.current
+        if (!pointer || pointer.pointerId !== e.pointerId) return
 
-    const contextValue = React.useMemo<TagsInputContextType<T>>(
-      () => ({
-        tags,
-        addTags,
-        removeTag,
-        inputRef,
-        keyBindings,
-        isTagNonInteractive,
-      }),
-      [tags, addTags, removeTag, isTagNonInteractive, keyBindings]
-    )
+        dragPointerRef.current = null
+        if (!dragState) return
+
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+          e.currentTarget.releasePointerCapture(e.pointerId)
+        }
+        setDragState(null)
+        if (drop) moveTag(dragState.from, dragState.to)
+      }
+
+      return {
+        "data-id": getTagDataId(index),
+        "data-disabled": isTagDisabled ? "" : undefined,
+        tabIndex: isTagDisabled ? -1 : 0,
+        "aria-labelledby": getTagTextId(index),
+        "aria-disabled": isTagDisabled,
+        "data-pending": isPending ? "" : undefined,
+        "aria-busy": isPending || undefined,
+        "data-editing": isEditing ? "" : undefined,
+        role: "option",
+        "data-selected": isSelected ? "" : undefined,
+        "aria-selected": isTagDisabled ? undefined : isSelected,
+        "data-dragging": isDragging ? "" : undefined,
+        "data-drop-target": isDropTarget ? "" : undefined,
+        ...props,
+        ref: mergeRefs(registerTagRef, ref),
+        onKeyDown: composeEventHandlers(onKeyDown, handleTagKeyDown),
+        onClick: composeEventHandlers(onClick, handleTagClick),
+        onDoubleClick: composeEventHandlers(onDoubleClick, () => {
+          if (!isTagDisabled) startEdit(index)
+        }),
+        onPointerDown: composeEventHandlers(onPointerDown, handlePointerDown),
+        onPointerMove: composeEventHandlers(onPointerMove, handlePointerMove),
+        onPointerUp: composeEventHandlers(onPointerUp, (e) => endDrag(e, true)),
+        onPointerCancel: composeEventHandlers(onPointerCancel, (e) =>
+          endDrag(e, false)
+        ),
+      } as TagGetterProps
+    },
+    [
+      isTagNonInteractive,
+      isTagPending,
+      editingIndex,
+      selectedIndices,
+      dragState,
+      reorderable,
+      keyBindings,
+      removeTag,
+      removeSelected,
+      startEdit,
+      moveTag,
+      selectAll,
+      clearSelection,
+      extendSelection,
+      toggleSelection,
+      getSelectableIndices,
+      undo,
+      redo,
+      getTagIndexAtPoint,
+      getTagIndex,
+      getTagElements,
+      registerTagRef,
+      getTagDataId,
+      getTagTextId,
+    ]
+  )
+
+  const getTagTextProps = React.useCallback(
+    (index: number, props: TagTextProps = {}): TagTextProps => ({
+      id: getTagTextId(index),
+      "aria-hidden": true,
+      ...props,
+    }),
+    [getTagTextId]
+  )
+
+  const getTagEditInputProps = React.useCallback(
+    (
+      index: number,
+      { ref, onKeyDown, onBlur, ...props }: TagEditInputProps = {}
+    ): TagEditInputProps => {
+      const tag = tags[index]
+
+      const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "Escape") {
+          e.preventDefault()
+          cancelEdit()
+        } else if (getKeyAction(keyBindings, e) === TagsInputKeyActions.Add) {
+          e.preventDefault()
+          commitEdit(e.currentTarget.value)
+        }
+      }
+
+      // Leaving the field commits, or reverts when the edit is refused
+      const handleEditBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+        if (editingIndexRef.current !== index) return
+        if (!commitEdit(e.currentTarget.value, false)) stopEdit()
+      }
+
+      return {
+        type: "text",
+        autoFocus: true,
+        autoComplete: "off",
+        "aria-label": "Edit tag",
+        defaultValue: tag === undefined ? "" : getTagLabel(tag),
+        ...props,
+        ref,
+        onKeyDown: composeEventHandlers(onKeyDown, handleEditKeyDown),
+        onBlur: composeEventHandlers(onBlur, handleEditBlur),
+      }
+    },
+    [tags, keyBindings, cancelEdit, commitEdit, stopEdit]
+  )
+
+  const getDeleteProps = React.useCallback(
+    (
+      index: number,
+      { onClick, disabled, ...props }: DeleteProps = {}
+    ): DeleteProps => {
+      const isButtonNonInteractive = disabled || isTagNonInteractive
+
+      const handleRemove = (e: React.MouseEvent<HTMLButtonElement>) => {
+        e.stopPropagation()
+        removeTag(index)
+      }
+
+      return {
+        type: "button",
+        "aria-label": "delete tag",
+        "aria-disabled": isButtonNonInteractive,
+        disabled: isButtonNonInteractive,
+        ...props,
+        onClick: composeEventHandlers(onClick, handleRemove),
+      }
+    },
+    [isTagNonInteractive, removeTag]
+  )
+
+  const getSuggestionsProps = React.useCallback(
+    ({ ref, ...props }: SuggestionsProps = {}): SuggestionsProps => {
+      // Filled again by `getSuggestionProps` while the options render
+      suggestionValuesRef.current.clear()
+
+      return {
+        id: `${id}-suggestions`,
+        role: "listbox",
+        hidden: !isSuggestionsOpen,
+        "data-state": isSuggestionsOpen ? "open" : "closed",
+        ...props,
+        ref: mergeRefs(setSuggestionsElement, ref),
+      }
+    },
+    [id, isSuggestionsOpen]
+  )
+
+  const getSuggestionProps = React.useCallback(
+    (
+      suggestion: T,
+      { ref, onClick, onMouseDown, onMouseMove, ...props }: SuggestionProps = {}
+    ): SuggestionProps => {
+      const optionId = getSuggestionId(suggestion)
+      const isHighlighted = optionId === highlightedSuggestionId
+      suggestionValuesRef.current.set(optionId, suggestion)
+      registerSuggestions([suggestion])
+
+      return {
+        id: optionId,
+        role: "option",
+        "aria-selected": isHighlighted,
+        "data-highlighted": isHighlighted ? "" : undefined,
+        ...props,
+        ref: mergeRefs(ref),
+        // Keep focus in the input while picking with the pointer
+        onMouseDown: composeEventHandlers(onMouseDown, (e) =>
+          e.preventDefault()
+        ),
+        onMouseMove: composeEventHandlers(onMouseMove, () => {
+          if (!isHighlighted) setHighlightedSuggestionId(optionId)
+        }),
+        onClick: composeEventHandlers(onClick, () =>
+          commitSuggestion(suggestion)
+        ),
+      }
+    },
+    [
+      getSuggestionId,
+      highlightedSuggestionId,
+      commitSuggestion,
+      registerSuggestions,
+    ]
+  )
+
+  const getCreateSuggestionProps = React.useCallback(
+    ({
+      ref,
+      onClick,
+      onMouseDown,
+      onMouseMove,
+      ...props
+    }: SuggestionProps = {}): SuggestionProps => {
+      const isHighlighted = highlightedSuggestionId === createSuggestionId
+      const isPending = creatingCount > 0
+
+      return {
+        id: createSuggestionId,
+        role: "option",
+        "aria-selected": isHighlighted,
+        "data-highlighted": isHighlighted ? "" : undefined,
+        "data-pending": isPending ? "" : undefined,
+        "aria-busy": isPending || undefined,
+        ...props,
+        ref: mergeRefs(ref),
+        onMouseDown: composeEventHandlers(onMouseDown, (e) =>
+          e.preventDefault()
+        ),
+        onMouseMove: composeEventHandlers(onMouseMove, () => {
+          if (!isHighlighted) setHighlightedSuggestionId(createSuggestionId)
+        }),
+        onClick: composeEventHandlers(onClick, () => {
+          createTag(inputValue)
+          setInputValue("")
+          setHighlightedSuggestionId(null)
+          inputRef.current?.focus()
+        }),
+      }
+    },
+    [
+      highlightedSuggestionId,
+      createSuggestionId,
+      creatingCount,
+      createTag,
+      inputValue,
+      setInputValue,
+    ]
+  )
+
+  const isCreatingTag = creatingCount > 0
+
+  const getLiveRegionProps = React.useCallback(
+    (
+      props: React.HTMLAttributes<HTMLDivElement> = {}
+    ): React.HTMLAttributes<HTMLDivElement> => ({
+      role: "status",
+      "aria-live": "polite",
+      "aria-atomic": true,
+      children: announcement,
+      ...props,
+    }),
+    [announcement]
+  )
+
+  const getInputHintProps = React.useCallback(
+    (
+      props: React.HTMLAttributes<HTMLDivElement> = {}
+    ): React.HTMLAttributes<HTMLDivElement> => ({
+      id: inputHintId,
+      children: inputRejection?.message,
+      ...props,
+    }),
+    [inputHintId, inputRejection]
+  )
+
+  const formValues = React.useMemo(
+    () => serializeTags(tags, serialize),
+    [tags, serialize]
+  )
+
+  // Like native fields, disabled tags are left out of the submitted data
+  const getHiddenInputProps = React.useCallback(
+    (props: HiddenInputProps = {}): HiddenInputProps[] =>
+      name === undefined
+        ? []
+        : formValues.map((value) => ({
+            type: "hidden",
+            name,
+            value,
+            disabled,
+            ...props,
+          })),
+    [name, formValues, disabled]
+  )
+
+  return React.useMemo<UseTagsInputStateReturn<T>>(
+    () => ({
+      tags,
+      addTags,
+      removeTag,
+      api,
+      rejection,
+      isValid,
+      isBelowMin,
+      isAtMax,
+      isTagPending,
+      tagKeys,
+      tagElements,
+      registerTag,
+      editingIndex,
+      startEdit,
+      cancelEdit,
+      commitEdit,
+      moveTag,
+      dragState,
+      announcement,
+      selectedIndices,
+      setSelectedIndices,
+      isTagSelected,
+      selectAll,
+      clearSelection,
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      inputValue,
+      setInputValue,
+      commitInputValue,
+      inputLength,
+      remainingTagLength,
+      inputRejection,
+      isSuggestionsOpen,
+      setSuggestionsOpen,
+      highlightedSuggestionId,
+      isSuggestionVisible,
+      getSuggestionMatch,
+      commitSuggestion,
+      suggestions,
+      suggestionsStatus,
+      suggestionsError,
+      isSuggestionsEmpty,
+      canCreateTag,
+      isCreatingTag,
+      createTag,
+      rootRef,
+      inputRef,
+      keyBindings,
+      isTagNonInteractive,
+      getRootProps,
+      getTagListProps,
+      getInputProps,
+      getTagProps,
+      getTagTextProps,
+      getTagEditInputProps,
+      getDeleteProps,
+      getLiveRegionProps,
+      getInputHintProps,
+      getHiddenInputProps,
+      getSuggestionsProps,
+      getSuggestionProps,
+      getCreateSuggestionProps,
+    }),
+    [
+      tags,
+      addTags,
+      removeTag,
+      api,
+      rejection,
+      isValid,
+      isBelowMin,
+      isAtMax,
+      isTagPending,
+      tagKeys,
+      tagElements,
+      registerTag,
+      editingIndex,
+      startEdit,
+      cancelEdit,
+      commitEdit,
+      moveTag,
+      dragState,
+      announcement,
+      selectedIndices,
+      setSelectedIndices,
+      isTagSelected,
+      selectAll,
+      clearSelection,
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      inputValue,
+      setInputValue,
+      commitInputValue,
+      inputLength,
+      remainingTagLength,
+      inputRejection,
+      isSuggestionsOpen,
+      setSuggestionsOpen,
+      highlightedSuggestionId,
+      isSuggestionVisible,
+      getSuggestionMatch,
+      commitSuggestion,
+      suggestions,
+      suggestionsStatus,
+      suggestionsError,
+      isSuggestionsEmpty,
+      canCreateTag,
+      isCreatingTag,
+      createTag,
+      keyBindings,
+      isTagNonInteractive,
+      getRootProps,
+      getTagListProps,
+      getInputProps,
+      getTagProps,
+      getTagTextProps,
+      getTagEditInputProps,
+      getDeleteProps,
+      getLiveRegionProps,
+      getInputHintProps,
+      getHiddenInputProps,
+      getSuggestionsProps,
+      getSuggestionProps,
+      getCreateSuggestionProps,
+    ]
+  )
+}
+
+const TagsInput = forwardRefWithGenerics(
+  <T extends Tag<Primitive>>(
+    {
+      value,
+      defaultValue,
+      onChange,
+      className,
+      children,
+      orientation = "column",
+      inline = false,
+      maxTags,
+      minTags,
+      minTagsMode,
+      minTagLength,
+      maxTagLength,
+      allowedPattern,
+      allowDuplicates = false,
+      caseSensitiveDuplicates = false,
+      disabled = false,
+      readOnly = false,
+      keyboardCommands = defaultKeyBindings,
+      parseInput,
+      transformTag,
+      valueType,
+      locale,
+      parseValue,
+      validateTag,
+      onTagRejected,
+      validateTagAsync,
+      onTagEdit,
+      reorderable,
+      onTagMove,
+      focusAfterRemove,
+      addOnBlur,
+      addOnSubmit,
+      name,
+      serialize,
+      selectedIndices,
+      defaultSelectedIndices,
+      onSelectedIndicesChange,
+      historyDepth,
+      loadSuggestions,
+      suggestionsDebounce,
+      suggestionsCacheSize,
+      suggestionMatcher,
+      creatable,
+      onCreateTag,
+      isKnownTag,
+      getTagKey,
+      apiRef,
+      ...rest
+    }: TagsInputProps<T>,
+    ref: React.Ref<HTMLDivElement>
+  ) => {
+    const contextValue = useTagsInputState({
+      value,
+      defaultValue,
+      onChange,
+      orientation,
+      maxTags,
+      minTags,
+      minTagsMode,
+      minTagLength,
+      maxTagLength,
+      allowedPattern,
+      allowDuplicates,
+      caseSensitiveDuplicates,
+      disabled,
+      readOnly,
+      keyboardCommands,
+      parseInput,
+      transformTag,
+      valueType,
+      locale,
+      parseValue,
+      validateTag,
+      onTagRejected,
+      validateTagAsync,
+      onTagEdit,
+      reorderable,
+      onTagMove,
+      focusAfterRemove,
+      addOnBlur,
+      addOnSubmit,
+      name,
+      serialize,
+      selectedIndices,
+      defaultSelectedIndices,
+      onSelectedIndicesChange,
+      historyDepth,
+      loadSuggestions,
+      suggestionsDebounce,
+      suggestionsCacheSize,
+      suggestionMatcher,
+      creatable,
+      onCreateTag,
+      isKnownTag,
+      getTagKey,
+    })
+
+    React.useImperativeHandle(apiRef, () => contextValue.api, [
+      contextValue.api,
+    ])
 
     return (
       <div
-        ref={ref}
-        data-orientation={orientation}
+        {...contextValue.getRootProps({ ref, ...rest })}
         data-inline={inline ? "" : undefined}
-        data-disabled={isTagNonInteractive ? "" : undefined}
         className={cn(
           "group flex flex-col space-y-2 data-[inline]:mx-auto data-[inline]:max-w-[450px] data-[inline]:rounded-md data-[inline]:border data-[inline]:border-secondary data-[inline]:px-3 data-[inline]:py-2.5",
           className
         )}
-        {...rest}
       >
-        <TagsInputContext.Provider value={contextValue}>
+        <TagsInputContext.Provider
+          value={
+            contextValue as unknown as TagsInputContextType<Tag<Primitive>>
+          }
+        >
           {typeof children === "function"
             ? children({ tags: contextValue.tags })
             : children}
         </TagsInputContext.Provider>
+        <div {...contextValue.getLiveRegionProps()} className="sr-only" />
+        <div {...contextValue.getInputHintProps()} className="sr-only" />
+        {contextValue.getHiddenInputProps().map((props, index) => (
+          <input key={index} {...props} />
+        ))}
       </div>
     )
   }
@@ -490,18 +3111,16 @@ const TagsInput = forwardRefWithGenerics(
 
 // TagsInput.displayName = "TagsInput"
 
-const TagsInputGroupContext = React.createContext<{
+const TagsInputItemContext = React.createContext<{
   keyIndex: number
-  textIdPrefix: string
-  groupRef: React.RefObject<HTMLDivElement>
 } | null>(null)
 
-const useTagsInputGroup = () => {
-  const context = React.useContext(TagsInputGroupContext)
+const useTagsInputItem = () => {
+  const context = React.useContext(TagsInputItemContext)
 
   if (!context) {
     throw new Error(
-      "The `useTagsInputGroup` hook must be used within a `TagsInputGroupProvider`"
+      "The `useTagsInputItem` hook must be used within a `TagsInputItem`."
     )
   }
 
@@ -510,34 +3129,16 @@ const useTagsInputGroup = () => {
 
 const TagsInputGroup = React.forwardRef<HTMLDivElement, TagsInputGroupProps>(
   ({ className, children, ...rest }, forwardedRef) => {
-    const textId = React.useId()
-    const groupRef = React.useRef<HTMLDivElement>(null)
-
     return (
       <div
-        ref={mergeRefs(groupRef, forwardedRef)}
+        ref={forwardedRef}
         className={cn(
           "flex w-full flex-wrap items-center gap-x-2 gap-y-1 group-data-[orientation=column]:flex-row group-data-[orientation=row]:flex-col",
           className
         )}
         {...rest}
       >
-        {React.Children.map(children, (child, index) => {
-          if (React.isValidElement(child)) {
-            return (
-              <TagsInputGroupContext.Provider
-                value={{
-                  keyIndex: index,
-                  textIdPrefix: `${textId}-tag-${index}`,
-                  groupRef,
-                }}
-              >
-                {child}
-              </TagsInputGroupContext.Provider>
-            )
-          }
-          return child
-        })}
+        {children}
       </div>
     )
   }
@@ -545,8 +3146,35 @@ const TagsInputGroup = React.forwardRef<HTMLDivElement, TagsInputGroupProps>(
 
 TagsInputGroup.displayName = "TagsInputGroup"
 
+interface TagsInputItemsProps<T extends Tag<Primitive>> {
+  /**
+   * Renders one tag. Items are keyed by `getTagKey`, so no `key` is needed.
+   */
+  children: (tag: T, index: number) => React.ReactNode
+}
+
+function TagsInputItems<T extends Tag<Primitive> = Tag<Primitive>>({
+  children,
+}: TagsInputItemsProps<T>) {
+  const { tags, tagKeys, getTagListProps } = useTagsInput()
+
+  // `contents` keeps the chips laid out as children of the group
+  return (
+    <div {...getTagListProps()} className="contents">
+      {(tags as T[]).map((tag, index) => (
+        <TagsInputItemContext.Provider
+          key={tagKeys[index] ?? index}
+          value={{ keyIndex: index }}
+        >
+          {children(tag, index)}
+        </TagsInputItemContext.Provider>
+      ))}
+    </div>
+  )
+}
+
 const tagsInputItemVariants = cva(
-  "inline-flex shrink-0 items-center justify-between text-primary-foreground transition-colors focus-visible:ring-1 focus-visible:ring-ring focus-visible:ring-offset-2 data-[disabled]:pointer-events-none data-[disabled]:cursor-not-allowed data-[disabled]:opacity-50 group-data-[orientation=row]:w-full data-[disabled]:[&_svg]:pointer-events-none data-[disabled]:[&_svg]:shrink-0",
+  "inline-flex shrink-0 items-center justify-between text-primary-foreground transition-colors focus-visible:ring-1 focus-visible:ring-ring focus-visible:ring-offset-2 data-[disabled]:pointer-events-none data-[pending]:animate-pulse data-[disabled]:cursor-not-allowed data-[disabled]:opacity-50 data-[dragging]:opacity-50 data-[drop-target]:ring-1 data-[selected]:ring-2 data-[drop-target]:ring-ring data-[selected]:ring-ring group-data-[orientation=row]:w-full data-[disabled]:[&_svg]:pointer-events-none data-[disabled]:[&_svg]:shrink-0",
   {
     variants: {
       variant: {
@@ -588,133 +3216,46 @@ const TagsInputItem = React.forwardRef<HTMLElement, TagsInputItemProps>(
       shape,
       onKeyDown,
       disabled = false,
+      index,
       ...rest
     },
     forwardedRef
   ) => {
-    const { removeTag, inputRef, isTagNonInteractive, keyBindings } =
-      useTagsInput()
-
-    const { keyIndex, textIdPrefix } = useTagsInputGroup()
-
-    const Comp = asChild ? Slot : "div"
-
-    const itemRef = React.useRef<HTMLElement | null>(null)
-
-    const focusInput = React.useCallback(() => {
-      if (!inputRef.current) return
-      inputRef.current.focus()
-    }, [])
-
-    const isFocused = React.useCallback(
-      () => document.activeElement === itemRef.current,
-      []
-    )
-
-    const isTagDisabled = isTagNonInteractive || disabled
-
-    const handleTagKeyDown = React.useCallback(
-      (e: React.KeyboardEvent<HTMLElement>) => {
-        if (onKeyDown) {
-          onKeyDown(e)
-
-          if (e.defaultPrevented) {
-            return
-          }
-        }
-
-        if (isTagDisabled) return
-
-        const action = keyBindings[e.key]
-        if (!action) return
-
-        const findFocusableSibling = (
-          current: HTMLElement | null,
-          direction: "previous" | "next"
-        ): HTMLElement | null => {
-          let sibling =
-            direction === "previous"
-              ? current?.previousElementSibling
-              : current?.nextElementSibling
-
-          while (sibling) {
-            const siblingDisabled =
-              sibling.getAttribute("data-disabled") === "true"
-
-            if (!siblingDisabled) {
-              return sibling as HTMLElement // Found a focusable sibling
-            }
-
-            sibling =
-              direction === "previous"
-                ? sibling.previousElementSibling
-                : sibling.nextElementSibling
-          }
-
-          return null // No valid sibling found
-        }
+    const { getTagProps, tagElements, registerTag } = useTagsInput()
+    const item = React.useContext(TagsInputItemContext)
 
-        switch (action) {
-          case TagsInputKeyActions.Remove:
-            if (isFocused()) {
-              e.preventDefault()
-              removeTag(keyIndex) // Removes the current tag
-            }
-            break
+    const elementRef = React.useRef<HTMLElement | null>(null)
 
-          case TagsInputKeyActions.NavigateLeft: {
-            e.preventDefault()
-            const prevSibling = findFocusableSibling(
-              itemRef.current,
-              "previous"
-            )
-            if (prevSibling) {
-              prevSibling.focus() // Focus the previous non-disabled tag
-            }
-            break
-          }
+    // Unregisters the chip when it unmounts without its tag being removed
+    React.useLayoutEffect(() => {
+      if (elementRef.current) return registerTag(elementRef.current)
+    }, [registerTag])
 
-          case TagsInputKeyActions.NavigateRight: {
-            e.preventDefault()
-            const nextSibling = findFocusableSibling(itemRef.current, "next")
-            if (nextSibling) {
-              nextSibling.focus() // Focus the next non-disabled tag
-            } else {
-              focusInput() // Focuses the input field if no more siblings
-            }
-            break
-          }
+    // An explicit `index` or `TagsInputItems` tells which tag the item acts
+    // on; otherwise it is the chip's position among the registered chips,
+    // which only holds while every tag renders exactly one chip
+    const keyIndex =
+      index ??
+      item?.keyIndex ??
+      (elementRef.current ? tagElements.indexOf(elementRef.current) : -1)
 
-          default:
-            break
-        }
-      },
-      [
-        onKeyDown,
-        removeTag,
-        focusInput,
-        isFocused,
-        isTagDisabled,
-        keyBindings,
-        keyIndex,
-      ]
-    )
+    const Comp = asChild ? Slot : "div"
 
     return (
-      <Comp
-        ref={mergeRefs(forwardedRef, itemRef)}
-        data-id={`${TAG_ID_PREFIX}-${keyIndex}`}
-        data-disabled={isTagDisabled ? "" : undefined}
-        tabIndex={isTagDisabled ? -1 : 0}
-        aria-labelledby={textIdPrefix}
-        aria-disabled={isTagDisabled}
-        onKeyDown={handleTagKeyDown}
-        className={cn(
-          tagsInputItemVariants({ variant, size, shape }),
-          className
-        )}
-        {...rest}
-      />
+      <TagsInputItemContext.Provider value={{ keyIndex }}>
+        <Comp
+          {...getTagProps(keyIndex, {
+            ref: mergeRefs(elementRef, forwardedRef),
+            onKeyDown,
+            disabled,
+            ...rest,
+          })}
+          className={cn(
+            tagsInputItemVariants({ variant, size, shape }),
+            className
+          )}
+        />
+      </TagsInputItemContext.Provider>
     )
   }
 )
@@ -722,18 +3263,32 @@ const TagsInputItem = React.forwardRef<HTMLElement, TagsInputItemProps>(
 TagsInputItem.displayName = "TagsInputItem"
 
 const TagsInputItemText = React.forwardRef<
-  HTMLDivElement,
+  HTMLSpanElement,
   TagsInputItemTextProps
->(({ className, ...rest }, ref) => {
-  const { textIdPrefix } = useTagsInputGroup()
+>(({ className, children, ...rest }, ref) => {
+  const { getTagTextProps, getTagEditInputProps, editingIndex, tags } =
+    useTagsInput()
+  const { keyIndex } = useTagsInputItem()
+  const tag = tags[keyIndex]
+
+  if (editingIndex === keyIndex) {
+    return (
+      <input
+        {...getTagEditInputProps(keyIndex)}
+        className={cn("w-full min-w-16 bg-transparent outline-none", className)}
+        size={1}
+      />
+    )
+  }
+
   return (
     <span
-      id={textIdPrefix}
-      aria-hidden
+      {...getTagTextProps(keyIndex, rest)}
       className={cn("", className)}
       ref={ref}
-      {...rest}
-    />
+    >
+      {children ?? (tag === undefined ? null : getTagLabel(tag))}
+    </span>
   )
 })
 
@@ -742,33 +3297,18 @@ TagsInputItemText.displayName = "TagsInputItemText"
 const TagsInputItemDelete = React.forwardRef<
   React.ElementRef<typeof Button>,
   React.ComponentProps<typeof Button>
->(({ className, disabled, ...rest }, ref) => {
-  const { removeTag, isTagNonInteractive } = useTagsInput()
-
-  const isButtonNonInteractive = disabled || isTagNonInteractive
-
-  const { keyIndex } = useTagsInputGroup()
+>(({ className, disabled, onClick, ...rest }, ref) => {
+  const { getDeleteProps } = useTagsInput()
 
-  const handleRemove = React.useCallback(
-    (e: React.MouseEvent<HTMLButtonElement>) => {
-      e.stopPropagation()
-      removeTag(keyIndex)
-    },
-    [removeTag, keyIndex]
-  )
+  const { keyIndex } = useTagsInputItem()
 
   return (
     <Button
       ref={ref}
-      type="button"
       variant="ghost"
-      aria-label="delete tag"
-      aria-disabled={isButtonNonInteractive}
       size="icon"
       className={cn("ml-2 h-5 w-5", className)}
-      onClick={handleRemove}
-      disabled={isButtonNonInteractive}
-      {...rest}
+      {...getDeleteProps(keyIndex, { disabled, onClick, ...rest })}
     >
       <X aria-hidden />
     </Button>
@@ -779,143 +3319,399 @@ TagsInputItemDelete.displayName = "TagsInputItemDelete"
 
 const TagsInputInput = React.forwardRef<
   React.ElementRef<typeof Input>,
-  React.ComponentProps<typeof Input> & { delimiters?: Delimiters[] }
->(
-  (
-    {
-      className,
-      onPaste,
-      onKeyDown,
-      disabled = false,
-      readOnly = false,
-      delimiters = [Delimiters.Comma],
-      ...rest
-    },
-    forwardedRef
-  ) => {
-    const {
-      addTags,
-      inputRef: inputContextRef,
-      keyBindings,
-      isTagNonInteractive,
-    } = useTagsInput()
-    const { groupRef } = useTagsInputGroup()
-
-    const isInputNonInteractive = disabled || readOnly || isTagNonInteractive
+  React.ComponentProps<typeof Input> & InputDelimiterProps
+>(({ className, ...rest }, forwardedRef) => {
+  const { getInputProps } = useTagsInput()
 
-    const inputRef = React.useRef<HTMLInputElement>(null)
-
-    const useDelimiterRegex = (delimiters: Delimiters[]): RegExp => {
-      return React.useMemo(() => {
-        const patterns = delimiters.map(
-          (delimiter) => DelimiterPatterns[delimiter]
-        )
-        return new RegExp(patterns.map((regex) => regex.source).join("|"), "g")
-      }, [delimiters])
-    }
+  return (
+    <Input
+      {...getInputProps({ ref: forwardedRef, ...rest })}
+      className={cn(
+        "grow data-[invalid]:border-destructive data-[invalid]:focus-visible:ring-destructive [[data-inline][data-orientation=column]_&]:basis-2/4",
+        className
+      )}
+    />
+  )
+})
 
-    const delimiterRegex = useDelimiterRegex(delimiters)
+TagsInputInput.displayName = "TagsInputInput"
 
-    const processInputValue = React.useCallback(
-      (value: string) => {
-        const trimmedValue = value.trim()
-        if (!trimmedValue) return
+const TagsInputError = React.forwardRef<
+  HTMLParagraphElement,
+  React.HTMLAttributes<HTMLParagraphElement>
+>(({ className, children, ...rest }, ref) => {
+  const { rejection } = useTagsInput()
+  const body = rejection ? rejection.message : children
 
-        const parseTag = (tag: string) =>
-          !isNaN(Number(tag)) ? Number(tag) : tag.trim()
+  if (!body) {
+    return null
+  }
 
-        const tags =
-          delimiters.length && delimiterRegex.test(trimmedValue)
-            ? trimmedValue.split(delimiterRegex).map(parseTag).filter(Boolean)
-            : [parseTag(trimmedValue)]
+  return (
+    <p
+      ref={ref}
+      role="alert"
+      data-reason={rejection?.reason}
+      className={cn("text-[0.8rem] font-medium text-destructive", className)}
+      {...rest}
+    >
+      {body}
+    </p>
+  )
+})
 
-        addTags(tags)
-      },
-      [delimiterRegex, addTags, delimiters]
-    )
+TagsInputError.displayName = "TagsInputError"
 
-    const handleInputKeyDown = React.useCallback(
-      (e: React.KeyboardEvent<HTMLInputElement>) => {
-        if (onKeyDown) {
-          onKeyDown(e)
+interface TagsInputCharCounterProps
+  extends Omit<React.HTMLAttributes<HTMLSpanElement>, "children"> {
+  /**
+   * Renders the count. Defaults to the number of characters left.
+   */
+  children?: (count: { length: number; remaining: number }) => React.ReactNode
+}
 
-          if (e.defaultPrevented) {
-            return
-          }
-        }
+/**
+ * Characters left for the tag being typed. Renders nothing without
+ * `maxTagLength`, and gets `data-invalid` once the limit is exceeded.
+ */
+const TagsInputCharCounter = React.forwardRef<
+  HTMLSpanElement,
+  TagsInputCharCounterProps
+>(({ className, children, ...rest }, ref) => {
+  const { inputLength, remainingTagLength } = useTagsInput()
+
+  if (remainingTagLength === null) {
+    return null
+  }
 
-        if (isInputNonInteractive || !inputRef.current) return
+  return (
+    <span
+      ref={ref}
+      data-invalid={remainingTagLength < 0 ? "" : undefined}
+      className={cn(
+        "text-xs tabular-nums text-muted-foreground data-[invalid]:text-destructive",
+        className
+      )}
+      {...rest}
+    >
+      {children
+        ? children({ length: inputLength, remaining: remainingTagLength })
+        : remainingTagLength}
+    </span>
+  )
+})
 
-        const command = keyBindings[e.key]
-        if (command === TagsInputKeyActions.Remove) {
-          if (inputRef.current.value === "") {
-            if (!groupRef.current) return
+TagsInputCharCounter.displayName = "TagsInputCharCounter"
 
-            const tags = groupRef.current?.querySelectorAll(
-              '[data-id]:not([data-disabled="true"])'
-            )
+interface TagsInputSuggestionsProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, "children"> {
+  /**
+   * Suggestions to render, or a function receiving the ones returned by
+   * `loadSuggestions`. Defaults to one `TagsInputSuggestion` per loaded
+   * suggestion.
+   */
+  children?:
+    | React.ReactNode
+    | ((props: { suggestions: Tag<Primitive>[] }) => React.ReactNode)
+}
 
-            const lastNonDisabledTag = Array.from(tags || []).pop()
-            if (lastNonDisabledTag) {
-              return (lastNonDisabledTag as HTMLElement).focus() // Focus the last non-disabled tag
-            }
-          }
-        } else if (command === TagsInputKeyActions.Add) {
-          e.preventDefault()
-          processInputValue(inputRef.current.value)
-          inputRef.current.value = ""
-        }
-      },
-      [keyBindings, isInputNonInteractive, processInputValue]
+const TagsInputSuggestions = React.forwardRef<
+  HTMLDivElement,
+  TagsInputSuggestionsProps
+>(({ className, children, ...rest }, ref) => {
+  const { getSuggestionsProps, suggestions, inputValue, getSuggestionMatch } =
+    useTagsInput()
+
+  // Static suggestions are ranked by their match score, keeping their order
+  // on ties; loaded ones keep the order of the loader
+  const rankSuggestions = (nodes: React.ReactNode): React.ReactNode => {
+    if (!inputValue.trim()) return nodes
+
+    const items = React.Children.toArray(nodes)
+    const isSuggestion = (
+      node: React.ReactNode
+    ): node is React.ReactElement<TagsInputSuggestionProps> =>
+      React.isValidElement(node) && node.type === TagsInputSuggestion
+
+    const ranked = items
+      .filter(isSuggestion)
+      .map((element) => ({
+        element,
+        score: getSuggestionMatch(element.props.value)?.score ?? -Infinity,
+      }))
+      .sort((a, b) => b.score - a.score)
+
+    let next = 0
+    return items.map((node) =>
+      isSuggestion(node) ? (ranked[next++]?.element ?? node) : node
     )
+  }
 
-    const handleInputPaste = React.useCallback(
-      (e: React.ClipboardEvent<HTMLInputElement>) => {
-        if (onPaste) {
-          onPaste(e)
-
-          if (e.defaultPrevented) {
-            return
-          }
-        }
+  return (
+    <div
+      {...getSuggestionsProps({ ref, ...rest })}
+      className={cn(
+        "max-h-60 overflow-y-auto rounded-md border border-secondary p-1 empty:hidden",
+        className
+      )}
+    >
+      {typeof children === "function"
+        ? children({ suggestions })
+        : children
+          ? rankSuggestions(children)
+          : suggestions.map((suggestion) => (
+              <TagsInputSuggestion
+                key={normalizeTag(suggestion, true)}
+                value={suggestion}
+              />
+            ))}
+    </div>
+  )
+})
 
-        if (isInputNonInteractive) return
+TagsInputSuggestions.displayName = "TagsInputSuggestions"
 
-        const pasteData = e.clipboardData.getData("text")
+const TagsInputSuggestionContext = React.createContext<{
+  value: Tag<Primitive>
+  ranges: MatchRange[]
+} | null>(null)
 
-        processInputValue(pasteData)
-        e.preventDefault()
-      },
-      [addTags, isInputNonInteractive, processInputValue]
+const useTagsInputSuggestion = () => {
+  const context = React.useContext(TagsInputSuggestionContext)
+  if (!context) {
+    throw new Error(
+      "The `useTagsInputSuggestion` hook must be used within a `TagsInputSuggestion`"
     )
+  }
+  return context
+}
 
-    return (
-      <Input
-        ref={mergeRefs(forwardedRef, inputRef, inputContextRef)}
-        autoComplete="off"
-        autoCorrect="off"
-        autoCapitalize="off"
-        aria-disabled={isInputNonInteractive}
-        disabled={isInputNonInteractive}
-        onKeyDown={handleInputKeyDown}
-        onPaste={handleInputPaste}
+interface TagsInputSuggestionProps
+  extends React.HTMLAttributes<HTMLDivElement> {
+  value: Tag<Primitive>
+}
+
+const TagsInputSuggestion = React.forwardRef<
+  HTMLDivElement,
+  TagsInputSuggestionProps
+>(({ value, className, children, ...rest }, ref) => {
+  const { getSuggestionProps, isSuggestionVisible, getSuggestionMatch } =
+    useTagsInput()
+
+  // Hidden while it does not match the input or is already a tag
+  if (!isSuggestionVisible(value)) {
+    return null
+  }
+
+  return (
+    <TagsInputSuggestionContext.Provider
+      value={{ value, ranges: getSuggestionMatch(value)?.ranges ?? [] }}
+    >
+      <div
+        {...getSuggestionProps(value, { ref, ...rest })}
         className={cn(
-          "grow [[data-inline][data-orientation=column]_&]:basis-2/4",
+          "relative flex cursor-default select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none data-[highlighted]:bg-accent data-[highlighted]:text-accent-foreground",
           className
         )}
+      >
+        {children ?? <TagsInputSuggestionHighlight />}
+      </div>
+    </TagsInputSuggestionContext.Provider>
+  )
+})
+
+TagsInputSuggestion.displayName = "TagsInputSuggestion"
+
+const TagsInputSuggestionHighlight = React.forwardRef<
+  HTMLSpanElement,
+  React.HTMLAttributes<HTMLSpanElement>
+>(({ className, ...rest }, ref) => {
+  const { value, ranges } = useTagsInputSuggestion()
+  const label = getTagLabel(value)
+
+  const segments: React.ReactNode[] = []
+  let cursor = 0
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) segments.push(label.slice(cursor, start))
+    segments.push(<mark key={start}>{label.slice(start, end)}</mark>)
+    cursor = end
+  })
+  segments.push(label.slice(cursor))
+
+  return (
+    <span
+      ref={ref}
+      className={cn(
+        "[&_mark]:bg-transparent [&_mark]:font-semibold [&_mark]:text-current",
+        className
+      )}
+      {...rest}
+    >
+      {segments}
+    </span>
+  )
+})
+
+TagsInputSuggestionHighlight.displayName = "TagsInputSuggestionHighlight"
+
+interface TagsInputSuggestionCreateProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, "children"> {
+  children?: React.ReactNode | ((input: string) => React.ReactNode)
+}
+
+const TagsInputSuggestionCreate = React.forwardRef<
+  HTMLDivElement,
+  TagsInputSuggestionCreateProps
+>(({ className, children, ...rest }, ref) => {
+  const { getCreateSuggestionProps, canCreateTag, inputValue } = useTagsInput()
+
+  // Only offered for new text that may be created
+  if (!canCreateTag) {
+    return null
+  }
+
+  const input = inputValue.trim()
+
+  return (
+    <div
+      {...getCreateSuggestionProps({ ref, ...rest })}
+      className={cn(
+        "relative flex cursor-default select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none data-[pending]:animate-pulse data-[highlighted]:bg-accent data-[highlighted]:text-accent-foreground",
+        className
+      )}
+    >
+      {typeof children === "function"
+        ? children(input)
+        : (children ?? `Create "${input}"`)}
+    </div>
+  )
+})
+
+TagsInputSuggestionCreate.displayName = "TagsInputSuggestionCreate"
+
+const suggestionsStateClassName =
+  "px-2 py-1.5 text-center text-sm text-muted-foreground"
+
+const TagsInputSuggestionsLoading = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement>
+>(({ className, children = "Loading...", ...rest }, ref) => {
+  const { suggestionsStatus, isSuggestionsOpen } = useTagsInput()
+
+  if (!isSuggestionsOpen || suggestionsStatus !== "loading") {
+    return null
+  }
+
+  return (
+    <div
+      ref={ref}
+      role="status"
+      className={cn(suggestionsStateClassName, className)}
+      {...rest}
+    >
+      {children}
+    </div>
+  )
+})
+
+TagsInputSuggestionsLoading.displayName = "TagsInputSuggestionsLoading"
+
+const TagsInputSuggestionsEmpty = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement>
+>(({ className, children = "No suggestions found.", ...rest }, ref) => {
+  const { isSuggestionsEmpty, isSuggestionsOpen } = useTagsInput()
+
+  if (!isSuggestionsOpen || !isSuggestionsEmpty) {
+    return null
+  }
+
+  return (
+    <div
+      ref={ref}
+      role="status"
+      className={cn(suggestionsStateClassName, className)}
+      {...rest}
+    >
+      {children}
+    </div>
+  )
+})
+
+TagsInputSuggestionsEmpty.displayName = "TagsInputSuggestionsEmpty"
+
+interface TagsInputSuggestionsErrorProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, "children"> {
+  children?: React.ReactNode | ((error: unknown) => React.ReactNode)
+}
+
+const TagsInputSuggestionsError = React.forwardRef<
+  HTMLDivElement,
+  TagsInputSuggestionsErrorProps
+>(
+  (
+    { className, children = "Suggestions could not be loaded.", ...rest },
+    ref
+  ) => {
+    const { suggestionsStatus, suggestionsError, isSuggestionsOpen } =
+      useTagsInput()
+
+    if (!isSuggestionsOpen || suggestionsStatus !== "error") {
+      return null
+    }
+
+    return (
+      <div
+        ref={ref}
+        role="alert"
+        className={cn(suggestionsStateClassName, "text-destructive", className)}
         {...rest}
-      />
+      >
+        {typeof children === "function" ? children(suggestionsError) : children}
+      </div>
     )
   }
 )
 
-TagsInputInput.displayName = "TagsInputInput"
+TagsInputSuggestionsError.displayName = "TagsInputSuggestionsError"
 
 export {
+  useTagsInputState,
   TagsInput,
   TagsInputGroup,
+  TagsInputItems,
   TagsInputItem,
   TagsInputItemText,
   TagsInputItemDelete,
   TagsInputInput,
+  TagsInputError,
+  TagsInputCharCounter,
+  TagsInputSuggestions,
+  TagsInputSuggestion,
+  TagsInputSuggestionHighlight,
+  TagsInputSuggestionCreate,
+  TagsInputSuggestionsLoading,
+  TagsInputSuggestionsEmpty,
+  TagsInputSuggestionsError,
+  prefixMatcher,
+  substringMatcher,
+  fuzzyMatcher,
+}
+
+export type {
+  Delimiter,
+  Primitive,
+  Tag,
+  ExtendedObject,
+  TagsInputApi,
+  TagRejection,
+  UseTagsInputStateProps,
+  UseTagsInputStateReturn,
+  MatchRange,
+  SuggestionMatch,
+  SuggestionMatcher,
+  TagTransform,
+  TagsSerialization,
+  Tokenizer,
+  ValueType,
 }
@@ -0,0 +1,132 @@
+/**
+ * Framework-agnostic splitting of typed or pasted text into tags, and the
+ * reverse for copied tags. Nothing in this module may import React or touch
+ * the DOM.
+ */
+
+type Tokenizer = "split" | "quoted"
+
+interface TokenizeResult {
+  /**
+   * Tokens followed by a delimiter, with quotes and escapes resolved.
+   */
+  tokens: string[]
+  /**
+   * The trailing token, with quotes and escapes resolved.
+   */
+  pending: string
+  /**
+   * The trailing token as it was written, e.g. to keep an unfinished quote
+   * in the input.
+   */
+  rest: string
+}
+
+const QUOTE = '"'
+const ESCAPE = "\\"
+
+// Each delimiter matching only at `lastIndex`, with its own flags such as `i`
+function toSticky(delimiter: RegExp | RegExp[]): RegExp[] {
+  return [delimiter]
+    .flat()
+    .map(
+      (pattern) =>
+        new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, "") + "y")
+    )
+}
+
+// Length of the first delimiter match at `index`, or 0
+function matchDelimiterAt(value: string, sticky: RegExp[], index: number) {
+  for (const pattern of sticky) {
+    pattern.lastIndex = index
+    const length = pattern.exec(value)?.[0].length ?? 0
+    if (length) return length
+  }
+  return 0
+}
+
+/**
+ * Splits `value` on every match of `delimiter`, or of any of several
+ * delimiters, tried in order at each position.
+ *
+ * With the `"quoted"` tokenizer, a token starting with a double quote runs
+ * until the closing quote, so it may contain delimiters. Inside quotes, `""`
+ * stands for a literal quote as in CSV, and anywhere a backslash escapes the
+ * next character, e.g. `"Tom's \"Diner\""` or `New York\, NY`.
+ */
+function tokenize(
+  value: string,
+  delimiter: RegExp | RegExp[],
+  tokenizer: Tokenizer = "split"
+): TokenizeResult {
+  const quoted = tokenizer === "quoted"
+  const sticky = toSticky(delimiter)
+  const tokens: string[] = []
+
+  let token = ""
+  let tokenStart = 0
+  let inQuotes = false
+  let i = 0
+
+  while (i < value.length) {
+    const char = value[i] as string
+
+    if (quoted && char === ESCAPE && i + 1 < value.length) {
+      token += value[i + 1]
+      i += 2
+      continue
+    }
+
+    if (quoted && char === QUOTE) {
+      if (inQuotes && value[i + 1] === QUOTE) {
+        token += QUOTE
+        i += 2
+        continue
+      }
+      // Only a quote opening the token starts a quoted section; others,
+      // as in "Tom's 12" cut", are kept as they are
+      if (inQuotes || token.trim() === "") {
+        if (!inQuotes) token = ""
+        inQuotes = !inQuotes
+        i++
+        continue
+      }
+    }
+
+    const delimiterLength = inQuotes ? 0 : matchDelimiterAt(value, sticky, i)
+    if (delimiterLength) {
+      tokens.push(token)
+      token = ""
+      i += delimiterLength
+      tokenStart = i
+      continue
+    }
+
+    token += char
+    i++
+  }
+
+  return { tokens, pending: token, rest: value.slice(tokenStart) }
+}
+
+/**
+ * Quotes `token` when the `"quoted"` tokenizer would otherwise split or
+ * change it, so that `tokenize` gives it back unchanged.
+ */
+function quoteToken(token: string, delimiter: RegExp | RegExp[]): string {
+  const sticky = toSticky(delimiter)
+  let needsQuotes = token.includes(QUOTE) || token.includes(ESCAPE)
+  for (let i = 0; i < token.length && !needsQuotes; i++) {
+    needsQuotes = matchDelimiterAt(token, sticky, i) > 0
+  }
+  if (!needsQuotes) return token
+
+  const escaped = token
+    .replaceAll(ESCAPE, ESCAPE + ESCAPE)
+    .replaceAll(QUOTE, QUOTE + QUOTE)
+  return `${QUOTE}${escaped}${QUOTE}`
+}
+
+export { tokenize, quoteToken }
+
+export type { Tokenizer, TokenizeResult }
@@ -0,0 +1,50 @@
+/**
+ * Built-in tag transforms for the `transformTag` option. Each one is a plain
+ * `(value) => value` function, so they compose by listing them in order, e.g.
+ * `transformTag={[trim, collapseWhitespace, lowercase]}`. Nothing in this
+ * module may import React or touch the DOM.
+ */
+
+import type { TagTransform } from "./core"
+
+const COMBINING_MARKS = /\p{M}/gu
+
+const trim: TagTransform = (value) => value.trim()
+
+const lowercase: TagTransform = (value) => value.toLowerCase()
+
+// Runs of any whitespace, including newlines and tabs, become one space
+const collapseWhitespace: TagTransform = (value) => value.replace(/\s+/g, " ")
+
+/**
+ * Turns the text into a URL-friendly slug, e.g. "Crème Brûlée!" becomes
+ * "creme-brulee".
+ */
+const slugify: TagTransform = (value) =>
+  value
+    .normalize("NFD")
+    .replace(COMBINING_MARKS, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+
+/**
+ * Removes every character matched by `pattern`, e.g. `stripChars(/[#@]/)`.
+ */
+function stripChars(pattern: RegExp): TagTransform {
+  const flags = pattern.flags.includes("g")
+    ? pattern.flags
+    : `${pattern.flags}g`
+  const globalPattern = new RegExp(pattern.source, flags)
+  return (value) => value.replace(globalPattern, "")
+}
+
+/**
+ * Keeps at most `maxLength` characters, counting emoji and other astral
+ * characters once.
+ */
+function truncate(maxLength: number): TagTransform {
+  return (value) => Array.from(value).slice(0, maxLength).join("")
+}
+
+export { trim, lowercase, collapseWhitespace, slugify, stripChars, truncate }